@@ -0,0 +1,73 @@
+import { Action, ActionPanel, Color, Icon, Keyboard, List, openExtensionPreferences } from "@raycast/api";
+import { useEffect, useRef, useState } from "react";
+import { usePrefs } from "./lib/prefs";
+import { CheckOutcome, CheckStatus, SETUP_CHECKS, runCheck } from "./lib/setup-checks";
+
+const STATUS: Record<CheckStatus, { label: string; icon: Icon; color: Color }> = {
+  pass: { label: "Passed", icon: Icon.CheckCircle, color: Color.Green },
+  warn: { label: "Warning", icon: Icon.Warning, color: Color.Yellow },
+  fail: { label: "Failed", icon: Icon.XMarkCircle, color: Color.Red },
+  skip: { label: "Skipped", icon: Icon.MinusCircle, color: Color.SecondaryText },
+};
+
+export default function Command() {
+  const prefs = usePrefs();
+  const [outcomes, setOutcomes] = useState<Record<string, CheckOutcome>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const runId = useRef(0);
+
+  /** Checks run one at a time, so the microphone check doesn't compete with network calls. */
+  const runChecks = async () => {
+    const id = ++runId.current;
+    setIsLoading(true);
+    setOutcomes({});
+    for (const check of SETUP_CHECKS) {
+      const outcome = await runCheck(check, prefs);
+      if (id !== runId.current) return; // superseded by "Run Checks Again"
+      setOutcomes((o) => ({ ...o, [check.id]: outcome }));
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    runChecks();
+  }, []);
+
+  return (
+    <List isLoading={isLoading} isShowingDetail navigationTitle="Check Setup">
+      {SETUP_CHECKS.map((check) => {
+        const outcome = outcomes[check.id];
+        const status = outcome && STATUS[outcome.status];
+        const markdown = outcome
+          ? [
+              `## ${check.title}: ${status?.label}`,
+              outcome.message,
+              outcome.fix ? `### How to Fix\n\n${outcome.fix}` : "",
+            ]
+              .filter(Boolean)
+              .join("\n\n")
+          : `## ${check.title}\n\n_Checking…_`;
+        return (
+          <List.Item
+            key={check.id}
+            icon={status ? { source: status.icon, tintColor: status.color } : Icon.CircleProgress}
+            title={check.title}
+            detail={<List.Item.Detail markdown={markdown} />}
+            actions={
+              <ActionPanel>
+                <Action
+                  title="Run Checks Again"
+                  icon={Icon.ArrowClockwise}
+                  shortcut={Keyboard.Shortcut.Common.Refresh}
+                  onAction={runChecks}
+                />
+                <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+                {outcome?.fix ? <Action.CopyToClipboard title="Copy Fix" content={outcome.fix} /> : null}
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
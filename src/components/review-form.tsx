@@ -0,0 +1,164 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Form,
+  Icon,
+  Keyboard,
+  Toast,
+  confirmAlert,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { useState } from "react";
+import { noteTitle } from "../lib/history";
+import { OutboxNote, removeNote, requeueNote, updateNote } from "../lib/outbox";
+import { processNote } from "../lib/pipeline";
+import { SINK_IDS, SinkId, sinksFromPrefs } from "../lib/sinks";
+import type { Prefs } from "../lib/types";
+
+type Values = { title: string; body: string; tags: string; destinations: string[]; instructions: string };
+
+/**
+ * Shown after cleanup when "Review and edit before publishing" is on, for a note waiting
+ * in the outbox at the "cleaned" stage. Publishing sends exactly what's in the form.
+ */
+export function ReviewForm({
+  note: initial,
+  prefs,
+  log,
+  onDone,
+}: {
+  note: OutboxNote;
+  prefs: Prefs;
+  log: (line: string) => void;
+  /** Called with the note after it was published or re-cleaned, or `undefined` once discarded. */
+  onDone?: (note: OutboxNote | undefined) => void;
+}) {
+  const { pop } = useNavigation();
+  const [note, setNote] = useState(initial);
+  const [title, setTitle] = useState(() => noteTitle(initial));
+  const [body, setBody] = useState(() => stripTitle(initial.markdown ?? ""));
+  const [tags, setTags] = useState(() => initial.tags?.join(", ") ?? "");
+  const [isLoading, setIsLoading] = useState(false);
+  const sinks = sinksFromPrefs(prefs, SINK_IDS);
+  const enabled = note.destinations ?? sinksFromPrefs(prefs).map((s) => s.id);
+
+  const publish = async (values: Values) => {
+    if (!values.title.trim() || !values.body.trim()) {
+      await showToast({ style: Toast.Style.Failure, title: "Title and body are required" });
+      return;
+    }
+    if (!values.destinations.length) {
+      await showToast({ style: Toast.Style.Failure, title: "Choose at least one destination" });
+      return;
+    }
+    setIsLoading(true);
+    const edited = await updateNote(note, {
+      explicitTitle: values.title.trim(),
+      // Keep an H1 so every sink sees the same title, whether or not it reads `explicitTitle`.
+      markdown: `# ${values.title.trim()}\n\n${values.body.trim()}\n`,
+      tags: parseTags(values.tags),
+      destinations: values.destinations as SinkId[],
+    });
+    const result = await processNote(edited, { prefs, log });
+    setIsLoading(false);
+    onDone?.(result);
+    if (result.stage === "published") pop();
+    else setNote(result);
+  };
+
+  const reclean = async ({ instructions }: Values) => {
+    setIsLoading(true);
+    const requeued = await requeueNote({
+      ...note,
+      stage: "transcribed",
+      instructions: instructions.trim() || note.instructions,
+      markdown: undefined,
+      originalMarkdown: undefined,
+      explicitTitle: undefined,
+      tags: undefined,
+      lastError: undefined,
+    });
+    const result = await processNote(requeued, { prefs, log, stopAfter: "clean" });
+    setNote(result);
+    setTitle(noteTitle(result));
+    setBody(stripTitle(result.markdown ?? ""));
+    setTags(result.tags?.join(", ") ?? "");
+    setIsLoading(false);
+    onDone?.(result);
+  };
+
+  const discard = async () => {
+    const confirmed = await confirmAlert({
+      title: "Discard this note?",
+      message: "The transcript and cleaned note are deleted without being published.",
+      primaryAction: { title: "Discard", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    await removeNote(note.id);
+    await showToast({ style: Toast.Style.Success, title: "Note discarded" });
+    onDone?.(undefined);
+    pop();
+  };
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle="Review Note"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Publish" icon={Icon.Upload} onSubmit={publish} />
+          <Action.SubmitForm
+            title="Re-Run Cleanup"
+            icon={Icon.Wand}
+            shortcut={Keyboard.Shortcut.Common.Refresh}
+            onSubmit={reclean}
+          />
+          <Action
+            title="Discard Note"
+            icon={Icon.Trash}
+            style={Action.Style.Destructive}
+            shortcut={Keyboard.Shortcut.Common.Remove}
+            onAction={discard}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField id="title" title="Title" value={title} onChange={setTitle} />
+      <Form.TextArea id="body" title="Body" value={body} onChange={setBody} enableMarkdown />
+      <Form.TextField
+        id="tags"
+        title="Tags"
+        value={tags}
+        onChange={setTags}
+        placeholder="Comma-separated, e.g. planning, q3"
+      />
+      <Form.TagPicker id="destinations" title="Publish To" defaultValue={enabled}>
+        {sinks.map((sink) => (
+          <Form.TagPicker.Item key={sink.id} value={sink.id} title={sink.label} />
+        ))}
+      </Form.TagPicker>
+      <Form.Separator />
+      <Form.TextArea
+        id="instructions"
+        title="Cleanup Instructions"
+        placeholder="Used by Re-Run Cleanup, e.g. Shorter, as a bullet list"
+        info="Extra guidance for this note when re-running cleanup (⌘R)"
+      />
+    </Form>
+  );
+}
+
+/** The markdown without its leading H1, which is edited separately as the title. */
+function stripTitle(markdown: string): string {
+  return markdown.replace(/^\s*#\s+.+\n*/, "").trim();
+}
+
+function parseTags(value: string): string[] | undefined {
+  const tags = value
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+  return tags.length ? [...new Set(tags)] : undefined;
+}
@@ -0,0 +1,24 @@
+import { environment } from "@raycast/api";
+import { promises as fsp } from "node:fs";
+import { join } from "node:path";
+import { AUDIO_EXTENSIONS, encodeAudio } from "./recording/ffmpeg";
+import type { AudioFormat, DirPath, FilePath } from "./types";
+
+/** Compressed recordings live outside the outbox so they outlive the note. */
+export function audioArchiveDir(): DirPath {
+  return join(environment.supportPath, "audio") as DirPath;
+}
+
+/** Encode a note's WAV into the archive and return the compressed file's path. */
+export async function archiveAudio(
+  ffmpegPath: string,
+  wavPath: FilePath,
+  noteId: string,
+  format: AudioFormat,
+): Promise<FilePath> {
+  const dir = audioArchiveDir();
+  await fsp.mkdir(dir, { recursive: true });
+  const out = join(dir, `${noteId}${AUDIO_EXTENSIONS[format]}`) as FilePath;
+  await encodeAudio(ffmpegPath, wavPath, out, format);
+  return out;
+}
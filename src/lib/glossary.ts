@@ -0,0 +1,131 @@
+import { environment } from "@raycast/api";
+import { randomBytes } from "node:crypto";
+import { promises as fsp } from "node:fs";
+import { join } from "node:path";
+
+/** A name or term the transcriber tends to get wrong, with the ways it gets it wrong. */
+export type GlossaryTerm = {
+  id: string;
+  term: string; // the correct spelling, e.g. "Kubernetes"
+  aliases?: string[]; // misheard variants replaced by `term`, e.g. "cooper netties"
+  caseSensitive?: boolean; // only replace aliases with exactly this casing
+};
+
+/** Whisper only looks at the last ~224 tokens of its prompt. */
+const MAX_PROMPT_CHARS = 800;
+
+function glossaryFile(): string {
+  return join(environment.supportPath, "glossary.json");
+}
+
+/** Glossary terms in the order they were added. */
+export async function listGlossary(): Promise<GlossaryTerm[]> {
+  try {
+    const parsed = JSON.parse(await fsp.readFile(glossaryFile(), "utf8")) as GlossaryTerm[];
+    return Array.isArray(parsed) ? parsed.filter((t) => t.term?.trim()) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Insert or replace a term. New terms get an id. */
+export async function saveGlossaryTerm(term: Omit<GlossaryTerm, "id"> & { id?: string }): Promise<GlossaryTerm> {
+  const terms = await listGlossary();
+  const saved: GlossaryTerm = { ...term, id: term.id || `term-${randomBytes(4).toString("hex")}` };
+  const i = terms.findIndex((t) => t.id === saved.id);
+  if (i >= 0) terms[i] = saved;
+  else terms.push(saved);
+  await writeGlossary(terms);
+  return saved;
+}
+
+export async function deleteGlossaryTerm(id: string): Promise<void> {
+  await writeGlossary((await listGlossary()).filter((t) => t.id !== id));
+}
+
+/**
+ * Transcription prompt that biases the model towards the glossary's spellings.
+ * Whisper-style models imitate the prompt's style, so this is a plain list rather than an instruction.
+ */
+export function glossaryPrompt(terms: GlossaryTerm[]): string | undefined {
+  let prompt = "";
+  for (const { term } of terms) {
+    const next = prompt ? `${prompt}, ${term.trim()}` : `Glossary: ${term.trim()}`;
+    if (next.length > MAX_PROMPT_CHARS) break;
+    prompt = next;
+  }
+  return prompt ? `${prompt}.` : undefined;
+}
+
+/** Extra cleanup instructions asking the model to use the glossary's spellings. */
+export function spellingGuidance(terms: GlossaryTerm[]): string | undefined {
+  if (!terms.length) return undefined;
+  const lines = terms.map(({ term, aliases }) =>
+    aliases?.length ? `- ${term} (may be transcribed as ${aliases.map((a) => `“${a}”`).join(", ")})` : `- ${term}`,
+  );
+  return ["Spell these names and terms exactly as written here:", ...lines].join("\n");
+}
+
+type Rule = { from: string; to: string; caseSensitive: boolean };
+
+/**
+ * Replace every alias with its term, whole words only. Runs as a single pass so a replacement
+ * is never matched again, and longer aliases win over shorter ones that overlap them.
+ * Without `caseSensitive`, the term itself also counts as an alias, which fixes its casing.
+ */
+export function applyCorrections(text: string, terms: GlossaryTerm[]): { text: string; count: number } {
+  const rules: Rule[] = terms
+    .flatMap(({ term, aliases = [], caseSensitive = false }) => {
+      const to = term.trim();
+      const froms = caseSensitive ? aliases : [...aliases, to];
+      return froms.map((from) => ({ from: normalizeSpaces(from), to, caseSensitive }));
+    })
+    .filter((rule) => rule.from && rule.to)
+    .sort((a, b) => b.from.length - a.from.length);
+  if (!rules.length) return { text, count: 0 };
+
+  const alternatives = [...new Set(rules.map((r) => r.from.split(" ").map(escapeRegExp).join("\\s+")))];
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}_])`, "giu");
+
+  let count = 0;
+  const corrected = text.replace(pattern, (match) => {
+    const spoken = normalizeSpaces(match);
+    const rule = rules.find((r) =>
+      r.caseSensitive ? r.from === spoken : r.from.toLowerCase() === spoken.toLowerCase(),
+    );
+    if (!rule) return match;
+    const replacement = matchCase(rule.to, spoken);
+    if (replacement !== match) count++;
+    return replacement;
+  });
+  return { text: corrected, count };
+}
+
+/**
+ * Terms with their own capitals ("iPhone", "Kubernetes") are kept as written; all-lowercase
+ * terms follow the casing of what they replace, so a sentence-initial alias stays capitalised.
+ */
+function matchCase(term: string, spoken: string): string {
+  if (term !== term.toLowerCase()) return term;
+  if (spoken.length > 1 && spoken === spoken.toUpperCase() && spoken !== spoken.toLowerCase()) {
+    return term.toUpperCase();
+  }
+  if (spoken[0] !== spoken[0].toLowerCase()) return term[0].toUpperCase() + term.slice(1);
+  return term;
+}
+
+function normalizeSpaces(value: string): string {
+  return value.trim().replace(/\s+/g, " ");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+async function writeGlossary(terms: GlossaryTerm[]): Promise<void> {
+  await fsp.mkdir(environment.supportPath, { recursive: true });
+  const file = glossaryFile();
+  const tmp = `${file}.tmp`;
+  await fsp.writeFile(tmp, JSON.stringify(terms, null, 2), "utf8");
+  await fsp.rename(tmp, file);
+}
@@ -0,0 +1,89 @@
+import { environment } from "@raycast/api";
+import { promises as fsp } from "node:fs";
+import { join } from "node:path";
+import type { OutboxNote } from "./outbox";
+import type { DirPath } from "./types";
+
+export type HistoryStatus = "published" | "pending" | "failed";
+
+/** A note as remembered after it left the recorder, whether or not it was published. */
+export type HistoryEntry = Omit<OutboxNote, OutboxOnlyField> & {
+  title: string;
+  status: HistoryStatus;
+  updatedAt: string;
+};
+
+/** Retry bookkeeping that only means something while the note is in the outbox. */
+type OutboxOnlyField = "audioPath" | "attempts" | "audioUploadId";
+
+const OUTBOX_ONLY_FIELDS: OutboxOnlyField[] = ["audioPath", "attempts", "audioUploadId"];
+
+/** Root of the history store inside the extension's support directory. */
+export function historyDir(): DirPath {
+  return join(environment.supportPath, "history") as DirPath;
+}
+
+/** Best title we have for a note: the one set in review, its H1, else when it was recorded. */
+export function noteTitle(note: Pick<OutboxNote, "explicitTitle" | "markdown" | "recordedAt" | "createdAt">): string {
+  const heading = note.markdown?.match(/^#\s+(.+)$/m)?.[1];
+  return (
+    note.explicitTitle?.trim() ||
+    heading?.trim() ||
+    `Recording from ${new Date(note.recordedAt ?? note.createdAt).toLocaleString()}`
+  );
+}
+
+/** Create or update the history entry for a note (keyed by the note's id). */
+export async function recordHistory(note: OutboxNote): Promise<HistoryEntry> {
+  const entry: HistoryEntry = {
+    ...omit(note, OUTBOX_ONLY_FIELDS),
+    title: noteTitle(note),
+    status: note.stage === "published" ? "published" : note.lastError ? "failed" : "pending",
+    updatedAt: new Date().toISOString(),
+  };
+  await saveHistoryEntry(entry);
+  return entry;
+}
+
+/** The note an entry was recorded from, without the fields only history keeps. */
+export function entryNote(entry: HistoryEntry): Omit<HistoryEntry, "title" | "status" | "updatedAt"> {
+  return omit(entry, ["title", "status", "updatedAt"]);
+}
+
+export async function saveHistoryEntry(entry: HistoryEntry): Promise<void> {
+  await fsp.mkdir(historyDir(), { recursive: true });
+  const file = join(historyDir(), `${entry.id}.json`);
+  const tmp = `${file}.tmp`;
+  await fsp.writeFile(tmp, JSON.stringify(entry, null, 2), "utf8");
+  await fsp.rename(tmp, file);
+}
+
+/** All history entries, newest first. Unreadable files are skipped. */
+export async function listHistory(): Promise<HistoryEntry[]> {
+  let files: string[];
+  try {
+    files = await fsp.readdir(historyDir());
+  } catch {
+    return [];
+  }
+
+  const entries: HistoryEntry[] = [];
+  for (const file of files.filter((f) => f.endsWith(".json"))) {
+    try {
+      entries.push(JSON.parse(await fsp.readFile(join(historyDir(), file), "utf8")) as HistoryEntry);
+    } catch {
+      // half-written or foreign file; leave it alone
+    }
+  }
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await fsp.rm(join(historyDir(), `${id}.json`), { force: true });
+}
+
+function omit<T extends object, K extends keyof T>(value: T, keys: K[]): Omit<T, K> {
+  const copy = { ...value };
+  for (const key of keys) delete copy[key];
+  return copy;
+}
@@ -0,0 +1,174 @@
+/** Why a call to an external API failed, in terms of what the user can do about it. */
+export type ApiErrorKind = "auth" | "rate-limit" | "quota" | "timeout" | "network" | "validation" | "server";
+
+/** A failed OpenAI or Notion call. `message` is a short, user-facing summary; `detail` what the server said. */
+export class ApiError extends Error {
+  constructor(
+    readonly service: string,
+    readonly kind: ApiErrorKind,
+    readonly detail = "",
+    readonly status?: number,
+  ) {
+    super(`${headline(service, kind)}${detail ? `: ${detail}` : ""}`);
+    this.name = "ApiError";
+  }
+}
+
+export type RequestOpts = {
+  service: string; // "OpenAI", "Notion", …; used in error messages
+  timeoutMs?: number; // per attempt, default 60s
+  signal?: AbortSignal; // cancels the request and any pending retry
+  /**
+   * Safe to send twice. Only idempotent requests are retried after server errors, timeouts
+   * and dropped connections. 429s and connections that were never established are always
+   * retried, since the server didn't act on those.
+   */
+  idempotent?: boolean;
+  retries?: number; // default 3
+};
+
+/** Failures before a connection was made, so the request never reached the server. */
+const CONNECT_ERRORS = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "ENETUNREACH", "EHOSTUNREACH"]);
+
+const BASE_DELAY_MS = 1_000;
+const MAX_DELAY_MS = 30_000;
+
+/**
+ * `fetch` with a timeout and retries (exponential backoff with full jitter, honouring `Retry-After`).
+ * Returns the final response even when it isn't ok; throws `ApiError` only for timeouts and
+ * network failures. Aborting `signal` rejects with its abort reason.
+ */
+export async function fetchWithRetry(url: string, init: RequestInit, opts: RequestOpts): Promise<Response> {
+  const { service, timeoutMs = 60_000, signal, idempotent = false, retries = 3 } = opts;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    const timeout = AbortSignal.timeout(timeoutMs);
+    let failure: ApiError;
+    let connectFailed = false;
+    try {
+      const res = await fetch(url, { ...init, signal: signal ? AbortSignal.any([timeout, signal]) : timeout });
+      const retryable = res.status === 429 || (idempotent && (res.status === 408 || res.status >= 500));
+      if (!retryable || attempt >= retries) return res;
+      // Quota errors come back as 429 too, but waiting won't fix them.
+      if (res.status === 429 && isQuotaError(await res.clone().text())) return res;
+      // Release the connection rather than holding it through the backoff.
+      await res.body?.cancel().catch(() => undefined);
+      await sleep(retryAfterMs(res.headers.get("retry-after")) ?? backoffMs(attempt), signal);
+      continue;
+    } catch (e: unknown) {
+      signal?.throwIfAborted();
+      failure = timeout.aborted
+        ? new ApiError(service, "timeout", `no response after ${Math.round(timeoutMs / 1000)}s`)
+        : new ApiError(service, "network", e instanceof Error ? causeMessage(e) : String(e));
+      connectFailed = e instanceof Error && CONNECT_ERRORS.has(causeCode(e) ?? "");
+    }
+    if (!(idempotent || connectFailed) || attempt >= retries) throw failure;
+    await sleep(backoffMs(attempt), signal);
+  }
+}
+
+/** `fetchWithRetry` that also turns a non-ok final response into an `ApiError`. */
+export async function request(url: string, init: RequestInit, opts: RequestOpts): Promise<Response> {
+  const res = await fetchWithRetry(url, init, opts);
+  if (res.ok) return res;
+  const body = await res.text().catch(() => "");
+  throw new ApiError(opts.service, errorKind(res.status, body), errorDetail(body) || `HTTP ${res.status}`, res.status);
+}
+
+/** Classify an HTTP error status (and body, which tells quota apart from rate limits). */
+export function errorKind(status: number, body = ""): ApiErrorKind {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 429) return isQuotaError(body) ? "quota" : "rate-limit";
+  if (status === 402) return "quota";
+  if (status === 408 || status === 504) return "timeout";
+  if (status >= 500) return "server";
+  return "validation";
+}
+
+/** Toast title and message for any error; `ApiError`s get a hint on what to do about them. */
+export function describeError(e: unknown, fallbackTitle = "Something went wrong"): { title: string; message: string } {
+  if (!(e instanceof ApiError)) return { title: fallbackTitle, message: e instanceof Error ? e.message : String(e) };
+  const hint: Record<ApiErrorKind, string> = {
+    auth: "Check the key in the extension preferences",
+    "rate-limit": "Retries ran out; try again in a minute",
+    quota: "Check your plan and billing",
+    timeout: "Try again on a better connection",
+    network: "Check your internet connection",
+    validation: e.detail || "Check the extension preferences",
+    server: "The service is having trouble; try again later",
+  };
+  return { title: headline(e.service, e.kind), message: hint[e.kind] };
+}
+
+function headline(service: string, kind: ApiErrorKind): string {
+  switch (kind) {
+    case "auth":
+      return `Invalid ${service} key`;
+    case "rate-limit":
+      return `${service} rate limit reached`;
+    case "quota":
+      return `${service} quota exceeded`;
+    case "timeout":
+      return `${service} timed out`;
+    case "network":
+      return `Can't reach ${service}`;
+    case "validation":
+      return `${service} rejected the request`;
+    case "server":
+      return `${service} server error`;
+  }
+}
+
+/** OpenAI answers an exhausted quota with 429 `insufficient_quota`. */
+function isQuotaError(body: string): boolean {
+  return /insufficient_quota|billing/i.test(body);
+}
+
+/** The server's own error message from an OpenAI-style or Notion-style JSON body, else the raw text. */
+function errorDetail(body: string): string {
+  try {
+    const data = JSON.parse(body) as { error?: { message?: string }; message?: string };
+    return (data.error?.message ?? data.message ?? "").trim();
+  } catch {
+    return body.trim().slice(0, 300);
+  }
+}
+
+/** `Retry-After` is either seconds or an HTTP date. */
+export function retryAfterMs(header: string | null, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - now;
+  return Number.isFinite(ms) ? Math.min(MAX_DELAY_MS, Math.max(0, ms)) : undefined;
+}
+
+/** Full jitter: anywhere between 0 and the exponential ceiling for this attempt. */
+export function backoffMs(attempt: number): number {
+  return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+}
+
+/** Node's fetch reports connection problems as "fetch failed" with the real reason in `cause`. */
+function causeMessage(e: Error): string {
+  return e.cause instanceof Error ? e.cause.message : e.message;
+}
+
+/** The system error code (e.g. "ECONNREFUSED") behind a failed fetch, if any. */
+function causeCode(e: Error): string | undefined {
+  const code = (e.cause as { code?: unknown } | undefined)?.code;
+  return typeof code === "string" ? code : undefined;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
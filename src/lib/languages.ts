@@ -0,0 +1,55 @@
+/** ISO 639-1 codes for the languages Whisper handles well, with their English names. */
+const LANGUAGE_NAMES: Record<string, string> = {
+  ar: "Arabic",
+  ca: "Catalan",
+  cs: "Czech",
+  da: "Danish",
+  de: "German",
+  el: "Greek",
+  en: "English",
+  es: "Spanish",
+  fi: "Finnish",
+  fr: "French",
+  he: "Hebrew",
+  hi: "Hindi",
+  hu: "Hungarian",
+  id: "Indonesian",
+  it: "Italian",
+  ja: "Japanese",
+  ko: "Korean",
+  nl: "Dutch",
+  no: "Norwegian",
+  pl: "Polish",
+  pt: "Portuguese",
+  ro: "Romanian",
+  ru: "Russian",
+  sv: "Swedish",
+  th: "Thai",
+  tr: "Turkish",
+  uk: "Ukrainian",
+  vi: "Vietnamese",
+  zh: "Chinese",
+};
+
+/**
+ * A language as a lowercase ISO 639-1 code. Accepts codes ("fr"), locales ("fr-CA") and
+ * English names ("French", as OpenAI's verbose_json and faster-whisper report them).
+ */
+export function languageCode(value: string | undefined): string | undefined {
+  const v = value?.trim().toLowerCase();
+  if (!v) return undefined;
+  const code = v.split(/[-_]/)[0];
+  if (/^[a-z]{2}$/.test(code)) return code;
+  return Object.keys(LANGUAGE_NAMES).find((c) => LANGUAGE_NAMES[c].toLowerCase() === v);
+}
+
+/** "French" for "fr"; unknown codes are returned as they are. */
+export function languageName(code: string): string {
+  return LANGUAGE_NAMES[code] ?? code;
+}
+
+/** The languages in a comma- or space-separated preference, as codes, without duplicates. */
+export function parseLanguages(value: string | undefined): string[] {
+  const codes = (value ?? "").split(/[\s,;]+/).map(languageCode);
+  return [...new Set(codes.filter((c): c is string => !!c))];
+}
@@ -0,0 +1,128 @@
+import { environment } from "@raycast/api";
+import { randomBytes } from "node:crypto";
+import { promises as fsp } from "node:fs";
+import { join } from "node:path";
+import { wavDurationSeconds } from "./recording/segments";
+import type { ActionItem } from "../services/openai";
+import type { SinkId, SinkResult } from "./sinks";
+import type { DirPath, FilePath, TranscriptSegment } from "./types";
+
+/** Pipeline stages in order. `stage` on a note is the last one that completed. */
+export type NoteStage = "recorded" | "transcribed" | "cleaned" | "published";
+
+/** A note persisted in the outbox until every stage has completed. */
+export type OutboxNote = {
+  id: string;
+  createdAt: string; // ISO timestamp of when the recording was saved
+  stage: NoteStage;
+  audioPath?: FilePath; // removed once the transcript is safely stored
+  archivedAudioPath?: FilePath; // compressed copy for Notion, when the attachAudio preference is on
+  audioUploadId?: string; // Notion file upload of archivedAudioPath, reused when publishing is retried
+  recordedAt?: string; // ISO timestamp of when recording started
+  durationSec?: number;
+  source?: string; // e.g. "Voice Note"
+  language?: string; // ISO 639-1 code of the spoken language, e.g. "fr"
+  transcript?: string;
+  segments?: TranscriptSegment[]; // timings, when the transcription provider reports them
+  templateId?: string; // cleanup mode; default is the standard note
+  instructions?: string; // extra cleanup guidance for this note only
+  markdown?: string;
+  originalMarkdown?: string; // the cleaned note before translation, when it was translated
+  explicitTitle?: string; // set during review; otherwise sinks use the markdown's H1
+  tags?: string[];
+  tasks?: ActionItem[]; // extracted action items
+  destinations?: SinkId[]; // chosen during review; otherwise the sinks enabled in preferences
+  outputs?: Partial<Record<SinkId, SinkResult>>; // sinks that already received the note
+  attempts: number;
+  lastError?: string;
+};
+
+const NOTE_FILE = "note.json";
+
+/** Root of the outbox inside the extension's support directory. */
+export function outboxDir(): DirPath {
+  return join(environment.supportPath, "outbox") as DirPath;
+}
+
+function noteDir(id: string): DirPath {
+  return join(outboxDir(), id) as DirPath;
+}
+
+/**
+ * Move a freshly recorded WAV into the outbox and persist a note for it.
+ * The temp recording is removed once it has been copied.
+ */
+export async function enqueueRecording(
+  wavPath: FilePath,
+  meta: Pick<OutboxNote, "recordedAt" | "source" | "templateId"> = {},
+): Promise<OutboxNote> {
+  const createdAt = new Date().toISOString();
+  const id = `${createdAt.replace(/[:.]/g, "-")}-${randomBytes(3).toString("hex")}`;
+  const dir = noteDir(id);
+  await fsp.mkdir(dir, { recursive: true });
+
+  // Support path and tmpdir may live on different volumes, so copy rather than rename.
+  const audioPath = join(dir, "audio.wav") as FilePath;
+  await fsp.copyFile(wavPath, audioPath);
+  await fsp.unlink(wavPath).catch(() => undefined);
+
+  const durationSec = await wavDurationSeconds(audioPath).catch(() => undefined);
+  const note: OutboxNote = { id, createdAt, stage: "recorded", audioPath, durationSec, ...meta, attempts: 0 };
+  await writeNote(note);
+  return note;
+}
+
+/** Put a note (e.g. one picked from history) back into the outbox as-is. */
+export async function requeueNote(note: OutboxNote): Promise<OutboxNote> {
+  await fsp.mkdir(noteDir(note.id), { recursive: true });
+  await writeNote(note);
+  return note;
+}
+
+/** Apply a patch to a note and persist it. Returns the updated note. */
+export async function updateNote(note: OutboxNote, patch: Partial<Omit<OutboxNote, "id">>): Promise<OutboxNote> {
+  const next = { ...note, ...patch };
+  await writeNote(next);
+  return next;
+}
+
+/** Delete the note's audio file (if any) and forget its path. */
+export async function discardAudio(note: OutboxNote): Promise<OutboxNote> {
+  if (!note.audioPath) return note;
+  await fsp.unlink(note.audioPath).catch(() => undefined);
+  return updateNote(note, { audioPath: undefined });
+}
+
+/** All notes still waiting in the outbox, oldest first. Unreadable entries are skipped. */
+export async function listPendingNotes(): Promise<OutboxNote[]> {
+  let ids: string[];
+  try {
+    ids = await fsp.readdir(outboxDir());
+  } catch {
+    return [];
+  }
+
+  const notes: OutboxNote[] = [];
+  for (const id of ids) {
+    try {
+      const raw = await fsp.readFile(join(noteDir(id), NOTE_FILE), "utf8");
+      notes.push(JSON.parse(raw) as OutboxNote);
+    } catch {
+      // half-written or foreign entry; leave it alone
+    }
+  }
+  return notes.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Remove a note and everything stored with it. */
+export async function removeNote(id: string): Promise<void> {
+  await fsp.rm(noteDir(id), { recursive: true, force: true });
+}
+
+async function writeNote(note: OutboxNote): Promise<void> {
+  // Write-then-rename so a crash never leaves a truncated note.json behind.
+  const file = join(noteDir(note.id), NOTE_FILE);
+  const tmp = `${file}.tmp`;
+  await fsp.writeFile(tmp, JSON.stringify(note, null, 2), "utf8");
+  await fsp.rename(tmp, file);
+}
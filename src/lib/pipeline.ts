@@ -0,0 +1,453 @@
+import { Toast, showToast } from "@raycast/api";
+import {
+  ActionItem,
+  cleanTranscript,
+  detectLanguage,
+  extractActionItems,
+  extractTags,
+  translateMarkdown,
+} from "../services/openai";
+import { transcriptionProviderFromPrefs } from "../services/transcription";
+import { promises as fsp } from "node:fs";
+import { archiveAudio } from "./audio-archive";
+import { applyCorrections, glossaryPrompt, listGlossary, spellingGuidance } from "./glossary";
+import { recordHistory } from "./history";
+import { ApiError, describeError } from "./http";
+import { languageCode, languageName, parseLanguages } from "./languages";
+import { NoteStage, OutboxNote, discardAudio, removeNote, updateNote } from "./outbox";
+import { trimSilences } from "./recording/silence";
+import { sinksFromPrefs } from "./sinks";
+import { CleanupTemplate, getTemplate, renderTemplate } from "./templates";
+import { ChunkProgress, transcribeRecording } from "./transcribe";
+import type { Prefs, Result, Transcript } from "./types";
+
+export type PipelineOpts = {
+  prefs: Prefs;
+  log: (line: string) => void;
+  /** Called as transcription chunks complete, and with `null` once transcription is over. */
+  onProgress?: (progress: ChunkProgress | null) => void;
+  /** Called with every stage's status whenever one of them changes. */
+  onStatus?: (status: PipelineStatus) => void;
+  /** Aborting stops the running stage; the note stays in the outbox after its last completed stage. */
+  signal?: AbortSignal;
+  /** Leave the note in the outbox once this stage is done, e.g. to review it before publishing. */
+  stopAfter?: PipelineStage;
+  /** Nobody started this run by hand (quick capture, retries), so the clipboard is left alone. */
+  unattended?: boolean;
+};
+
+/** The steps a recorded note goes through, in order. */
+export type PipelineStage = "transcribe" | "clean" | "publish";
+
+export type StageStatus = "pending" | "running" | "done" | "failed" | "cancelled";
+
+export type PipelineStatus = Record<PipelineStage, StageStatus>;
+
+export const PIPELINE_STAGES: PipelineStage[] = ["transcribe", "clean", "publish"];
+
+/** Note stages in order; a note at `NOTE_STAGES[i]` runs `PIPELINE_STAGES[i]` next. */
+const NOTE_STAGES: NoteStage[] = ["recorded", "transcribed", "cleaned", "published"];
+
+/** What a stage works on. `save` persists progress, so `note` is current even when a stage fails partway. */
+type StageContext = PipelineOpts & {
+  note: OutboxNote;
+  save: (patch: Partial<Omit<OutboxNote, "id">>) => Promise<OutboxNote>;
+};
+
+/** Each stage leaves the note at the next `NoteStage` when it succeeds, and throws otherwise. */
+const STAGES: Record<PipelineStage, (ctx: StageContext) => Promise<void>> = {
+  transcribe: transcribeStage,
+  clean: cleanStage,
+  publish: publishStage,
+};
+
+/** The stage that runs next for a note at `stage`, or undefined once it is published. */
+export function nextStage(stage: NoteStage): PipelineStage | undefined {
+  return PIPELINE_STAGES[NOTE_STAGES.indexOf(stage)];
+}
+
+/** Status of each stage for a note at rest: stages it has completed are done, the rest pending. */
+export function stageStatus(stage: NoteStage): PipelineStatus {
+  const completed = NOTE_STAGES.indexOf(stage);
+  const entries = PIPELINE_STAGES.map((s, i) => [s, i < completed ? "done" : "pending"] as const);
+  return Object.fromEntries(entries) as PipelineStatus;
+}
+
+/**
+ * Run a note through transcribe → clean → publish, skipping the stages it has already completed.
+ * Progress is persisted after every stage so a failure or cancellation can be resumed later.
+ * Never throws: on failure the error is recorded on the note, which stays in the outbox.
+ */
+export async function processNote(note: OutboxNote, opts: PipelineOpts): Promise<OutboxNote> {
+  const status = stageStatus(note.stage);
+  const ctx: StageContext = { ...opts, note, save: async (patch) => (ctx.note = await updateNote(ctx.note, patch)) };
+  const setStatus = (stage: PipelineStage, value: StageStatus) => {
+    status[stage] = value;
+    opts.onStatus?.({ ...status });
+  };
+  opts.onStatus?.({ ...status });
+
+  for (const stage of PIPELINE_STAGES) {
+    if (status[stage] === "done") continue;
+    setStatus(stage, "running");
+    const result = await runStage(stage, ctx);
+    if (!result.ok) {
+      const cancelled = opts.signal?.aborted ?? false;
+      setStatus(stage, cancelled ? "cancelled" : "failed");
+      return cancelled ? settleCancelled(ctx.note, opts) : settleFailed(ctx.note, result.error, opts);
+    }
+    setStatus(stage, "done");
+    if (stage === opts.stopAfter && stage !== "publish") {
+      await recordHistory(ctx.note).catch(() => undefined);
+      return ctx.note;
+    }
+  }
+
+  await recordHistory(ctx.note).catch(() => undefined);
+  await removeNote(ctx.note.id);
+  return ctx.note;
+}
+
+/** Run one stage, turning a throw (or an abort before it starts) into a failed result. */
+async function runStage(stage: PipelineStage, ctx: StageContext): Promise<Result<OutboxNote>> {
+  try {
+    ctx.signal?.throwIfAborted();
+    await STAGES[stage](ctx);
+    return { ok: true, value: ctx.note };
+  } catch (e: unknown) {
+    return { ok: false, error: e instanceof Error ? e : new Error(String(e)) };
+  }
+}
+
+async function settleFailed(note: OutboxNote, error: Error, { log }: PipelineOpts): Promise<OutboxNote> {
+  const current = await updateNote(note, { attempts: note.attempts + 1, lastError: error.message }).catch(() => note);
+  log(`Failed after stage "${current.stage}": ${error.message}`);
+  log("Note kept in outbox; use “Retry Pending Notes” to resume.");
+  await recordHistory(current).catch(() => undefined);
+  const { title, message } = describeError(error, "Note saved for retry");
+  await showToast({
+    style: Toast.Style.Failure,
+    title,
+    message: error instanceof ApiError ? `${message}. The note is saved for retry.` : message,
+  });
+  return current;
+}
+
+/** A cancelled run isn't a failed attempt; the note just waits in the outbox. */
+async function settleCancelled(note: OutboxNote, { log }: PipelineOpts): Promise<OutboxNote> {
+  const current = await updateNote(note, { lastError: "Cancelled" }).catch(() => note);
+  log(`Cancelled after stage "${current.stage}"`);
+  log("Note kept in outbox; use “Retry Pending Notes” to resume.");
+  await recordHistory(current).catch(() => undefined);
+  await showToast({ style: Toast.Style.Success, title: "Processing cancelled", message: "Note kept for retry" });
+  return current;
+}
+
+async function transcribeStage(ctx: StageContext): Promise<void> {
+  const { log } = ctx;
+  const result = await transcribeAudioFile(ctx.note, ctx).finally(() => ctx.onProgress?.(null));
+  const { text: transcript, segments, language } = result;
+  await ctx.save({ stage: "transcribed", transcript, segments, language, lastError: undefined });
+  await showToast({ style: Toast.Style.Success, title: "Transcription complete", message: transcript });
+  log("Transcription:");
+  log(transcript);
+  if (segments) log(`${segments.length} timed segments`);
+  log(language ? `Language: ${languageName(language)} (${language})` : "Language: unknown");
+
+  await keepCompressedAudio(ctx);
+
+  // The transcript is on disk now, so the audio is no longer needed.
+  const audioPath = ctx.note.audioPath;
+  ctx.note = await discardAudio(ctx.note);
+  if (audioPath) log(`Deleted audio file: ${audioPath}`);
+}
+
+/**
+ * Encode the WAV for attaching to Notion before it's deleted. This runs after silence trimming,
+ * so transcript timestamps line up with the attached audio. Failures never block the note.
+ */
+async function keepCompressedAudio({ note, prefs, log, save }: StageContext): Promise<void> {
+  if (!prefs.attachAudio || prefs.attachAudio === "off" || !note.audioPath) return;
+  try {
+    const archivedAudioPath = await archiveAudio(
+      prefs.ffmpegPath || "ffmpeg",
+      note.audioPath,
+      note.id,
+      prefs.attachAudio,
+    );
+    await save({ archivedAudioPath, audioUploadId: undefined });
+    log(`Kept compressed audio: ${archivedAudioPath}`);
+  } catch (e: unknown) {
+    log(`Audio attachment skipped: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+async function cleanStage(ctx: StageContext): Promise<void> {
+  const { note, prefs, log, signal } = ctx;
+  const template = await getTemplate(note.templateId);
+  await showToast({ style: Toast.Style.Animated, title: "Cleaning transcription…", message: template.name });
+  const cleaned = await cleanText(note.transcript ?? "", prefs, {
+    template,
+    instructions: note.instructions,
+    date: new Date(note.recordedAt ?? note.createdAt),
+    language: note.language && languageName(note.language),
+    signal,
+    log,
+  });
+  const { markdown, originalMarkdown } = await translateNote(cleaned, prefs, { language: note.language, signal, log });
+  const { tags, tasks } = await noteExtras(markdown, note, ctx);
+  // The optional extras swallow their errors, including aborts.
+  signal?.throwIfAborted();
+  await ctx.save({ stage: "cleaned", markdown, originalMarkdown, tags, tasks, lastError: undefined });
+  await showToast({ style: Toast.Style.Success, title: "Cleaning complete", message: markdown });
+  log("Cleaned Transcript:");
+  log(markdown);
+  if (tags?.length) log(`Tags: ${tags.join(", ")}`);
+  if (tasks?.length) log(`Action items: ${tasks.length}`);
+}
+
+async function transcribeAudioFile(note: OutboxNote, opts: PipelineOpts): Promise<Transcript> {
+  const { prefs, log, onProgress, signal } = opts;
+  if (!note.audioPath) throw new Error("Audio file is missing from the outbox");
+  const provider = transcriptionProviderFromPrefs(prefs);
+  const ffmpegPath = prefs.ffmpegPath || "ffmpeg";
+
+  // Dead air costs transcription time and money; trimming is best effort.
+  if (prefs.trimSilence) {
+    try {
+      const removed = await trimSilences(ffmpegPath, note.audioPath);
+      if (removed > 0) log(`Trimmed ${removed.toFixed(1)}s of silence`);
+    } catch (e: unknown) {
+      log(`Silence trimming skipped: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  const audioPath = note.audioPath;
+  const languages = parseLanguages(prefs.transcriptionLanguages);
+  const prompt = glossaryPrompt(await listGlossary());
+  const toast = await showToast({ style: Toast.Style.Animated, title: "Transcribing audio…" });
+  const transcribe = async (language: string | undefined) => {
+    const transcript = await transcribeRecording(audioPath, {
+      ffmpegPath,
+      provider,
+      language,
+      prompt,
+      signal,
+      onProgress: (progress) => {
+        onProgress?.(progress);
+        if (progress.total < 2) return;
+        toast.message = `Chunk ${progress.done} of ${progress.total}`;
+        if (progress.done > 0) log(`Transcribed chunk ${progress.done}/${progress.total}`);
+        else log(`Long recording split into ${progress.total} chunks`);
+      },
+    });
+    if (!transcript.text) throw new Error("No transcription text received");
+    return { ...transcript, language: transcript.language ?? (await detectStage(transcript.text, languages, opts)) };
+  };
+
+  // A single spoken language is passed along; otherwise the provider detects it.
+  const transcript = await transcribe(languages.length === 1 ? languages[0] : undefined);
+  // Detection misfires on short or accented recordings; the preferred list catches that.
+  if (languages.length > 1 && transcript.language && !languages.includes(transcript.language)) {
+    log(`Detected ${languageName(transcript.language)}, not a spoken language in preferences; transcribing again`);
+    toast.message = `Retrying in ${languageName(languages[0])}`;
+    return transcribe(languages[0]);
+  }
+  return transcript;
+}
+
+/** For transcription models that don't report the language. Never blocks the note. */
+async function detectStage(
+  text: string,
+  candidates: string[],
+  { prefs, log, signal }: PipelineOpts,
+): Promise<string | undefined> {
+  if (!prefs.openaiApiKey) return undefined;
+  try {
+    return await detectLanguage({ apiKey: prefs.openaiApiKey, text, candidates, signal });
+  } catch (e: unknown) {
+    log(`Language detection skipped: ${e instanceof Error ? e.message : String(e)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Turn a raw transcript into the note's Markdown using a cleanup template, then apply the
+ * glossary's corrections to the result. Also used to re-clean notes from history.
+ */
+export async function cleanText(
+  transcript: string,
+  prefs: Prefs,
+  opts: {
+    template: CleanupTemplate;
+    instructions?: string;
+    date?: Date;
+    language?: string;
+    signal?: AbortSignal;
+    log?: (line: string) => void;
+  },
+): Promise<string> {
+  if (!prefs.openaiApiKey) throw new Error("No OpenAI API key configured");
+
+  const { template, instructions, date = new Date(), language, signal, log } = opts;
+  const glossary = await listGlossary();
+  const markdown = await cleanTranscript({
+    apiKey: prefs.openaiApiKey,
+    text: transcript,
+    model: template.model || undefined,
+    temperature: template.temperature,
+    instructions: [instructions?.trim(), spellingGuidance(glossary)].filter(Boolean).join("\n\n"),
+    signal,
+    ...renderTemplate(template, { transcript, date, language }),
+  });
+  if (!markdown) throw new Error("No cleaned text received");
+
+  const corrected = applyCorrections(markdown, glossary);
+  if (glossary.length) log?.(`Glossary: ${corrected.count} replacement${corrected.count === 1 ? "" : "s"}`);
+  return corrected.text;
+}
+
+/**
+ * Translate a cleaned note into the "Translate Notes To" language unless it was spoken in it, or
+ * its language is unknown (it may already be in the target language). `originalMarkdown` is only set
+ * when the note was translated. Also used to re-clean notes from history.
+ */
+export async function translateNote(
+  markdown: string,
+  prefs: Prefs,
+  opts: { language?: string; signal?: AbortSignal; log?: (line: string) => void } = {},
+): Promise<{ markdown: string; originalMarkdown?: string }> {
+  const to = languageCode(prefs.translateTo);
+  const from = opts.language;
+  if (!to || !from || from === to) {
+    if (to && !from) opts.log?.("Translation skipped: the spoken language is unknown");
+    return { markdown };
+  }
+  if (!prefs.openaiApiKey) throw new Error("No OpenAI API key configured");
+
+  const translated = await translateMarkdown({
+    apiKey: prefs.openaiApiKey,
+    text: markdown,
+    from,
+    to,
+    signal: opts.signal,
+  });
+  if (!translated) throw new Error("No translation received");
+  opts.log?.(`Translated from ${languageName(from)} into ${languageName(to)}`);
+  return { markdown: translated, originalMarkdown: markdown };
+}
+
+/**
+ * Tags for the cleaned note and action items from its transcript, when those preferences are on.
+ * Also used to re-clean notes from history.
+ */
+export async function noteExtras(
+  markdown: string,
+  note: Pick<OutboxNote, "transcript" | "recordedAt" | "createdAt">,
+  opts: Pick<PipelineOpts, "prefs" | "log" | "signal">,
+): Promise<{ tags?: string[]; tasks?: ActionItem[] }> {
+  return { tags: await tagStage(markdown, opts), tasks: await actionItemStage(note, opts) };
+}
+
+/** Tags only matter when a tags property is mapped; failures here never block the note. */
+async function tagStage(
+  markdown: string,
+  { prefs, log, signal }: Pick<PipelineOpts, "prefs" | "log" | "signal">,
+): Promise<string[] | undefined> {
+  if (!prefs.tagsProperty || !prefs.openaiApiKey) return undefined;
+  try {
+    return await extractTags({ apiKey: prefs.openaiApiKey, text: markdown, signal });
+  } catch (e: unknown) {
+    log(`Tag extraction skipped: ${e instanceof Error ? e.message : String(e)}`);
+    return undefined;
+  }
+}
+
+/** Action items come from the raw transcript, so nothing said is lost to cleanup. Never blocks the note. */
+async function actionItemStage(
+  note: Pick<OutboxNote, "transcript" | "recordedAt" | "createdAt">,
+  { prefs, log, signal }: Pick<PipelineOpts, "prefs" | "log" | "signal">,
+): Promise<ActionItem[] | undefined> {
+  if (!prefs.extractActionItems || !prefs.openaiApiKey) return undefined;
+  try {
+    return await extractActionItems({
+      apiKey: prefs.openaiApiKey,
+      text: note.transcript ?? "",
+      today: new Date(note.recordedAt ?? note.createdAt),
+      signal,
+    });
+  } catch (e: unknown) {
+    log(`Action item extraction skipped: ${e instanceof Error ? e.message : String(e)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Hand the note to every enabled sink that hasn't received it yet. Each success is
+ * persisted right away so a retry never publishes the same note twice.
+ */
+async function publishStage(ctx: StageContext): Promise<void> {
+  const { prefs, log, signal } = ctx;
+  const enabled = sinksFromPrefs(prefs, ctx.note.destinations);
+  if (!enabled.length) throw new Error("No output enabled; turn on Notion, Markdown File or Clipboard");
+  // Overwriting the clipboard is only welcome right after the user asked for the note.
+  const sinks = ctx.unattended ? enabled.filter((sink) => sink.id !== "clipboard") : enabled;
+  if (sinks.length < enabled.length) log("[Clipboard] Skipped: not copied when publishing in the background");
+
+  const failures: { label: string; error: Error }[] = [];
+  for (const sink of sinks) {
+    const current = ctx.note;
+    if (current.outputs?.[sink.id]) continue;
+    signal?.throwIfAborted();
+
+    await showToast({ style: Toast.Style.Animated, title: `Publishing to ${sink.label}…` });
+    try {
+      const result = await sink.publish({
+        id: current.id,
+        markdown: current.markdown ?? "",
+        title: current.explicitTitle,
+        createdAt: current.createdAt,
+        metadata: {
+          recordedAt: current.recordedAt,
+          durationSec: current.durationSec,
+          language: current.language,
+          source: current.source,
+          tags: current.tags,
+        },
+        tasks: current.tasks,
+        originalMarkdown: current.originalMarkdown,
+        transcript: current.transcript ? { text: current.transcript, segments: current.segments } : undefined,
+        audioPath: current.archivedAudioPath,
+        audioUploadId: current.audioUploadId,
+        saveAudioUpload: async (audioUploadId) => {
+          await ctx.save({ audioUploadId });
+        },
+      });
+      await ctx.save({ outputs: { ...current.outputs, [sink.id]: result } });
+      await showToast({ style: Toast.Style.Success, title: result.summary, message: result.title });
+      log(`[${sink.label}] ${result.summary}${result.title ? `: ${result.title}` : ""}`);
+      if (result.location) log(result.location);
+      for (const line of result.details ?? []) log(line);
+    } catch (e: unknown) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      log(`[${sink.label}] Failed: ${error.message}`);
+      failures.push({ label: sink.label, error });
+    }
+  }
+
+  // Sinks that succeeded are already recorded on the note; only the failed ones are retried.
+  // A lone API error is passed on as is so the toast can say what to fix.
+  if (failures.length === 1 && failures[0].error instanceof ApiError) throw failures[0].error;
+  if (failures.length) throw new Error(failures.map((f) => `${f.label}: ${f.error.message}`).join("; "));
+  await ctx.save({ stage: "published", lastError: undefined, audioUploadId: undefined });
+  await releaseCompressedAudio(ctx);
+}
+
+/** Once published, the compressed copy is only kept if a sink points at it rather than having uploaded it. */
+async function releaseCompressedAudio({ note, log, save }: StageContext): Promise<void> {
+  const path = note.archivedAudioPath;
+  if (!path || Object.values(note.outputs ?? {}).some((output) => output?.keepsAudio)) return;
+  await fsp.unlink(path).catch(() => undefined);
+  await save({ archivedAudioPath: undefined });
+  log(`Deleted local audio copy: ${path}`);
+}
@@ -1,13 +1,43 @@
 import { getPreferenceValues } from "@raycast/api";
+import { captureBackend } from "./recording/backends";
 import { Prefs } from "./types";
 
 export function usePrefs(): Required<Pick<Prefs, "ffmpegPath" | "micDeviceIndex">> & Prefs {
   const p = getPreferenceValues<Prefs>();
   return {
     ffmpegPath: (p.ffmpegPath || "ffmpeg").trim(),
-    micDeviceIndex: (p.micDeviceIndex || ":1").trim(),
+    captureBackend: p.captureBackend || "auto",
+    micDeviceIndex: (p.micDeviceIndex || captureBackend(p.captureBackend).defaultDevice || "").trim(),
+    autoStopSilenceSec: p.autoStopSilenceSec?.trim(),
+    trimSilence: p.trimSilence ?? true,
     openaiApiKey: p.openaiApiKey?.trim(),
+    transcriptionProvider: p.transcriptionProvider || "openai",
+    transcriptionModel: p.transcriptionModel?.trim(),
+    transcriptionBaseUrl: p.transcriptionBaseUrl?.trim(),
+    transcriptionApiKey: p.transcriptionApiKey?.trim(),
+    whisperBinaryPath: p.whisperBinaryPath?.trim(),
+    transcriptionLanguages: p.transcriptionLanguages?.trim(),
+    translateTo: p.translateTo?.trim(),
+    outputNotion: p.outputNotion ?? true,
+    outputMarkdownFile: p.outputMarkdownFile ?? false,
+    outputClipboard: p.outputClipboard ?? false,
+    reviewBeforePublish: p.reviewBeforePublish ?? false,
+    markdownFolder: p.markdownFolder?.trim(),
+    markdownFilenameTemplate: p.markdownFilenameTemplate?.trim(),
     notionToken: p.notionToken?.trim(),
     notionDatabaseId: p.notionDatabaseId?.trim(),
+    notionMode: p.notionMode || "database",
+    notionPageId: p.notionPageId?.trim(),
+    dailyDateProperty: p.dailyDateProperty?.trim(),
+    notionTranscript: p.notionTranscript ?? true,
+    attachAudio: p.attachAudio || "off",
+    audioUploadLimitMb: p.audioUploadLimitMb?.trim(),
+    extractActionItems: p.extractActionItems ?? false,
+    tasksDatabaseId: p.tasksDatabaseId?.trim(),
+    tagsProperty: p.tagsProperty?.trim(),
+    recordedAtProperty: p.recordedAtProperty?.trim(),
+    durationProperty: p.durationProperty?.trim(),
+    languageProperty: p.languageProperty?.trim(),
+    sourceProperty: p.sourceProperty?.trim(),
   };
 }
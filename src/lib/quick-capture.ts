@@ -0,0 +1,266 @@
+import { LocalStorage, environment } from "@raycast/api";
+import { randomBytes } from "node:crypto";
+import { promises as fsp, statSync } from "node:fs";
+import { join } from "node:path";
+import { noteTitle } from "./history";
+import { OutboxNote, enqueueRecording, listPendingNotes } from "./outbox";
+import { PipelineStatus, processNote } from "./pipeline";
+import { captureBackend } from "./recording/backends";
+import { resolveInputDevice } from "./recording/devices";
+import { isProcessRunning, startDetachedRecording, stopDetachedRecording } from "./recording/ffmpeg";
+import type { FilePath, Prefs } from "./types";
+
+/** A recording running in the background, started from the menu bar or the toggle hotkey. */
+export type ActiveCapture = {
+  pid: number; // the detached ffmpeg
+  wavPath: string;
+  logPath: string; // ffmpeg's stderr, for saying why a recording failed
+  startedAt: string; // ISO timestamp
+  device: string;
+  deviceName?: string;
+};
+
+/** How the most recent quick capture ended up. */
+export type CaptureResult = {
+  noteId: string;
+  title: string;
+  status: "published" | "review" | "failed";
+  url?: string; // the Notion page, if there is one
+  error?: string;
+  at: string; // ISO timestamp
+};
+
+/**
+ * Everything quick capture needs to survive its commands unloading: the running recording,
+ * notes waiting to be processed (by outbox id) and the last result.
+ */
+export type QuickCaptureState = {
+  recording?: ActiveCapture;
+  queue: string[];
+  /** Set while a menu-bar instance works through `queue`, so a second one leaves it alone. */
+  processing?: { owner: string; heartbeatAt: string };
+  last?: CaptureResult;
+};
+
+const STATE_KEY = "quickCapture";
+
+/** The cleanup mode picked in the recorder, which quick capture uses too. */
+const TEMPLATE_KEY = "cleanupTemplateId";
+
+/** How often a processing menu-bar instance refreshes its claim on the queue. */
+const HEARTBEAT_MS = 30_000;
+
+/** A claim without a heartbeat for this long belongs to a menu-bar instance that was unloaded mid-way. */
+const STALE_PROCESSING_MS = 2 * 60_000;
+
+/** ffmpeg writes the WAV continuously; a file this stale means the pid now belongs to something else. */
+const STALE_RECORDING_MS = 15_000;
+
+export async function loadCaptureState(): Promise<QuickCaptureState> {
+  const raw = await LocalStorage.getItem<string>(STATE_KEY);
+  if (!raw) return { queue: [] };
+  try {
+    const state = JSON.parse(raw) as QuickCaptureState;
+    return { ...state, queue: state.queue ?? [] };
+  } catch {
+    return { queue: [] };
+  }
+}
+
+/** Read-modify-write the state; returns what was saved. */
+async function updateCaptureState(fn: (state: QuickCaptureState) => QuickCaptureState): Promise<QuickCaptureState> {
+  const next = fn(await loadCaptureState());
+  await LocalStorage.setItem(STATE_KEY, JSON.stringify(next));
+  return next;
+}
+
+/** Whether `capture`'s ffmpeg is still the one recording, rather than a reused pid after a crash or restart. */
+export function isCaptureRunning(capture: ActiveCapture): boolean {
+  if (!isProcessRunning(capture.pid)) return false;
+  try {
+    return Date.now() - statSync(capture.wavPath).mtimeMs < STALE_RECORDING_MS;
+  } catch {
+    return false;
+  }
+}
+
+/** Start recording if nothing is, otherwise stop and queue the note. `started` is set when it started. */
+export async function toggleCapture(prefs: Prefs): Promise<{ started?: ActiveCapture; stopped?: OutboxNote }> {
+  const state = await loadCaptureState();
+  if (state.recording && isCaptureRunning(state.recording)) return { stopped: await stopCapture() };
+  if (state.recording) await finishCapture(state.recording);
+  return { started: await startCapture(prefs) };
+}
+
+/** Spawn a detached ffmpeg into the support directory, so the audio outlives Raycast reloading the command. */
+export async function startCapture(prefs: Prefs): Promise<ActiveCapture> {
+  const ffmpegPath = prefs.ffmpegPath || "ffmpeg";
+  const backend = captureBackend(prefs.captureBackend);
+  const { device, name } = await resolveInputDevice(ffmpegPath, backend, prefs.micDeviceIndex ?? "");
+  if (!device) throw new Error("No input device configured; pick one in Voice Note - Record");
+
+  const dir = join(environment.supportPath, "capture");
+  await fsp.mkdir(dir, { recursive: true });
+  const stem = new Date().toISOString().replace(/[:.]/g, "-");
+  const logPath = join(dir, `${stem}.log`);
+  const { pid, wavPath } = await startDetachedRecording({
+    ffmpegPath,
+    backend: backend.id,
+    device,
+    outPath: join(dir, `${stem}.wav`),
+    logPath,
+  });
+
+  // A bad device or missing permission makes ffmpeg exit straight away.
+  await new Promise((resolve) => setTimeout(resolve, 700));
+  if (!isProcessRunning(pid)) {
+    const reason = await lastLogLine(logPath);
+    await cleanUp({ wavPath, logPath });
+    throw new Error(reason ? `ffmpeg stopped: ${reason}` : "ffmpeg stopped right away; run Check Setup");
+  }
+
+  const capture: ActiveCapture = {
+    pid,
+    wavPath,
+    logPath,
+    startedAt: new Date().toISOString(),
+    device,
+    deviceName: name,
+  };
+  await updateCaptureState((s) => ({ ...s, recording: capture }));
+  return capture;
+}
+
+/** Stop the running recording and queue it for processing. Undefined when nothing usable was recorded. */
+export async function stopCapture(): Promise<OutboxNote | undefined> {
+  const { recording } = await loadCaptureState();
+  if (!recording) return undefined;
+  if (isCaptureRunning(recording)) await stopDetachedRecording(recording.pid);
+  return finishCapture(recording);
+}
+
+/**
+ * A recording whose ffmpeg is gone (a crash, a restart) is queued with whatever audio it left,
+ * so reopening Raycast never loses a note. Returns the current state.
+ */
+export async function recoverCapture(): Promise<QuickCaptureState> {
+  const state = await loadCaptureState();
+  if (!state.recording || isCaptureRunning(state.recording)) return state;
+  await finishCapture(state.recording);
+  return loadCaptureState();
+}
+
+/** Move the recorded WAV into the outbox and forget the recording. */
+async function finishCapture(capture: ActiveCapture): Promise<OutboxNote | undefined> {
+  let note: OutboxNote | undefined;
+  // Anything up to the 44-byte WAV header is no audio at all.
+  const size = await fsp.stat(capture.wavPath).then(
+    (s) => s.size,
+    () => 0,
+  );
+  if (size > 44) {
+    const templateId = (await LocalStorage.getItem<string>(TEMPLATE_KEY)) ?? undefined;
+    note = await enqueueRecording(capture.wavPath as FilePath, {
+      recordedAt: capture.startedAt,
+      source: "Quick Capture",
+      templateId,
+    });
+  }
+  const reason = note ? undefined : await lastLogLine(capture.logPath);
+  await cleanUp(capture);
+
+  await updateCaptureState((s) => ({
+    ...s,
+    recording: undefined,
+    queue: note ? [...s.queue, note.id] : s.queue,
+    last: note
+      ? s.last
+      : {
+          noteId: "",
+          title: "Nothing was recorded",
+          status: "failed",
+          error: reason || "ffmpeg wrote no audio",
+          at: new Date().toISOString(),
+        },
+  }));
+  return note;
+}
+
+/**
+ * Run queued notes through the pipeline, one at a time. Only one caller works on the queue;
+ * others return straight away. With "Review and edit before publishing" on, notes stop after
+ * cleanup and wait in Retry Pending Notes.
+ */
+export async function processCaptures(
+  prefs: Prefs,
+  opts: { onState?: (state: QuickCaptureState) => void; onStatus?: (status: PipelineStatus) => void } = {},
+): Promise<void> {
+  const state = await loadCaptureState();
+  if (!state.queue.length) return;
+  if (state.processing && Date.now() - Date.parse(state.processing.heartbeatAt) < STALE_PROCESSING_MS) return;
+
+  const owner = randomBytes(4).toString("hex");
+  const owns = (s: QuickCaptureState) => s.processing?.owner === owner;
+  const claim = (s: QuickCaptureState) => ({ ...s, processing: { owner, heartbeatAt: new Date().toISOString() } });
+  opts.onState?.(await updateCaptureState(claim));
+  // A long recording can take longer than the stale window, so the claim is kept fresh while this instance lives.
+  const heartbeat = setInterval(() => {
+    updateCaptureState((s) => (owns(s) ? claim(s) : s)).catch(() => undefined);
+  }, HEARTBEAT_MS);
+
+  try {
+    // Stops early if another instance took over after this one stalled.
+    for (let current = await loadCaptureState(); owns(current) && current.queue.length;) {
+      const id = current.queue[0];
+      const note = (await listPendingNotes()).find((n) => n.id === id);
+      // Already handled elsewhere, e.g. from Retry Pending Notes.
+      const last = note ? captureResult(await processCapture(note, prefs, opts.onStatus)) : undefined;
+      current = await updateCaptureState((s) => ({
+        ...s,
+        queue: s.queue.filter((q) => q !== id),
+        last: last ?? s.last,
+      }));
+      opts.onState?.(current);
+    }
+  } finally {
+    clearInterval(heartbeat);
+    opts.onState?.(await updateCaptureState((s) => (owns(s) ? { ...s, processing: undefined } : s)));
+  }
+}
+
+function processCapture(
+  note: OutboxNote,
+  prefs: Prefs,
+  onStatus?: (status: PipelineStatus) => void,
+): Promise<OutboxNote> {
+  return processNote(note, {
+    prefs,
+    // Nobody sees a background log; failures are kept on the note as `lastError` and shown as the last result.
+    log: () => undefined,
+    onStatus,
+    stopAfter: prefs.reviewBeforePublish ? "clean" : undefined,
+    unattended: true,
+  });
+}
+
+function captureResult(note: OutboxNote): CaptureResult {
+  const status = note.stage === "published" ? "published" : note.lastError ? "failed" : "review";
+  return {
+    noteId: note.id,
+    title: noteTitle(note),
+    status,
+    url: note.outputs?.notion?.location,
+    error: status === "failed" ? note.lastError : undefined,
+    at: new Date().toISOString(),
+  };
+}
+
+async function lastLogLine(logPath: string): Promise<string | undefined> {
+  const log = await fsp.readFile(logPath, "utf8").catch(() => "");
+  return log.trim().split("\n").pop()?.trim() || undefined;
+}
+
+async function cleanUp({ wavPath, logPath }: Pick<ActiveCapture, "wavPath" | "logPath">): Promise<void> {
+  await fsp.unlink(wavPath).catch(() => undefined);
+  await fsp.unlink(logPath).catch(() => undefined);
+}
@@ -0,0 +1,152 @@
+import { runFfmpeg } from "./ffmpeg";
+import type { CaptureBackendId } from "../types";
+
+/** An input device as reported by a backend's enumeration. */
+export type InputDevice = {
+  index: number; // position in the backend's list (per kind for avfoundation/dshow)
+  name: string; // human-readable name
+  kind: "audio" | "video";
+  device: string; // what to pass as `StartOpts.device` for this backend
+};
+
+/** How ffmpeg captures audio on one platform/sound system. */
+export type CaptureBackend = {
+  id: CaptureBackendId;
+  label: string;
+  /** Device used when none is configured; unset → the user has to pick one. */
+  defaultDevice?: string;
+  /** Example shown in errors and hints. */
+  example: string;
+  /** ffmpeg arguments that open `device` as the input. */
+  inputArgs: (device: string) => string[];
+  /** Error message when `device` isn't in this backend's format, else `null`. */
+  validateDevice: (device: string) => string | null;
+  /** Aborting `signal` kills the ffmpeg listing and rejects. */
+  listDevices: (ffmpegPath: string, signal?: AbortSignal) => Promise<InputDevice[]>;
+};
+
+const avfoundation: CaptureBackend = {
+  id: "avfoundation",
+  label: "AVFoundation (macOS)",
+  defaultDevice: ":1",
+  example: ":0 or :MacBook Pro Microphone",
+  inputArgs: (device) => ["-f", "avfoundation", "-i", device],
+  // "<video>:<audio>", where we only want the audio half.
+  validateDevice: (device) =>
+    /^(none)?:(?!none$)\S.*$/.test(device)
+      ? null
+      : `AVFoundation devices look like ":0" or ":Device Name" (got "${device}")`,
+  listDevices: async (ffmpegPath, signal) => {
+    const { stderr } = await runFfmpeg(ffmpegPath, ["-f", "avfoundation", "-list_devices", "true", "-i", ""], signal);
+    return parseAVFoundationDevices(stderr);
+  },
+};
+
+const pulse: CaptureBackend = {
+  id: "pulse",
+  label: "PulseAudio / PipeWire (Linux)",
+  defaultDevice: "default",
+  example: "default or alsa_input.usb-Blue_Microphones-00.analog-stereo",
+  inputArgs: (device) => ["-f", "pulse", "-i", device],
+  validateDevice: (device) =>
+    /^\S+$/.test(device) ? null : `PulseAudio source names have no spaces (got "${device}")`,
+  listDevices: async (ffmpegPath, signal) =>
+    parseSourceList((await runFfmpeg(ffmpegPath, ["-sources", "pulse"], signal)).stdout),
+};
+
+const alsa: CaptureBackend = {
+  id: "alsa",
+  label: "ALSA (Linux)",
+  defaultDevice: "default",
+  example: "default, hw:1,0 or plughw:CARD=Mic,DEV=0",
+  inputArgs: (device) => ["-f", "alsa", "-i", device],
+  validateDevice: (device) =>
+    /^[\w.-]+(:\S+)?$/.test(device) ? null : `ALSA devices look like "default" or "hw:1,0" (got "${device}")`,
+  listDevices: async (ffmpegPath, signal) =>
+    parseSourceList((await runFfmpeg(ffmpegPath, ["-sources", "alsa"], signal)).stdout),
+};
+
+const dshow: CaptureBackend = {
+  id: "dshow",
+  label: "DirectShow (Windows)",
+  example: "audio=Microphone (Realtek(R) Audio)",
+  inputArgs: (device) => ["-f", "dshow", "-i", device],
+  validateDevice: (device) =>
+    /^audio=.+/.test(device) ? null : `DirectShow devices look like "audio=Microphone Name" (got "${device}")`,
+  listDevices: async (ffmpegPath, signal) => {
+    const { stderr } = await runFfmpeg(ffmpegPath, ["-f", "dshow", "-list_devices", "true", "-i", "dummy"], signal);
+    return parseDShowDevices(stderr);
+  },
+};
+
+export const CAPTURE_BACKENDS: Record<CaptureBackendId, CaptureBackend> = { avfoundation, pulse, alsa, dshow };
+
+/** The backend named in preferences, or the usual one for this platform when unset/"auto". */
+export function captureBackend(
+  id?: CaptureBackendId | "auto",
+  platform: NodeJS.Platform = process.platform,
+): CaptureBackend {
+  if (id && id !== "auto") return CAPTURE_BACKENDS[id];
+  if (platform === "win32") return dshow;
+  if (platform === "linux") return pulse;
+  return avfoundation;
+}
+
+/**
+ * `[AVFoundation indev @ 0x…] [1] MacBook Pro Microphone`, under
+ * "AVFoundation video devices:" / "AVFoundation audio devices:" headers.
+ */
+export function parseAVFoundationDevices(output: string): InputDevice[] {
+  const devices: InputDevice[] = [];
+  let kind: InputDevice["kind"] | null = null;
+  for (const line of output.split(/\r?\n/)) {
+    const header = line.match(/AVFoundation (video|audio) devices:/);
+    if (header) {
+      kind = header[1] as InputDevice["kind"];
+      continue;
+    }
+    const entry = line.match(/\]\s+\[(\d+)\]\s+(.+?)\s*$/);
+    if (kind && entry) {
+      const index = Number(entry[1]);
+      devices.push({ index, name: entry[2], kind, device: kind === "audio" ? `:${index}` : `${index}:none` });
+    }
+  }
+  return devices;
+}
+
+/**
+ * `[dshow @ 0x…] "Microphone (Realtek Audio)" (audio)` in recent ffmpeg; older builds list
+ * names under "DirectShow video devices" / "DirectShow audio devices" headers instead.
+ */
+export function parseDShowDevices(output: string): InputDevice[] {
+  const devices: InputDevice[] = [];
+  const counts = { audio: 0, video: 0 };
+  let section: InputDevice["kind"] | null = null;
+  for (const line of output.split(/\r?\n/)) {
+    const header = line.match(/DirectShow (video|audio) devices/);
+    if (header) {
+      section = header[1] as InputDevice["kind"];
+      continue;
+    }
+    if (/Alternative name/.test(line)) continue;
+    const entry = line.match(/\]\s+"(.+)"(?:\s+\((audio|video)\))?\s*$/);
+    const kind = (entry?.[2] as InputDevice["kind"] | undefined) ?? section;
+    if (!entry || !kind) continue;
+    devices.push({ index: counts[kind]++, name: entry[1], kind, device: `${kind}=${entry[1]}` });
+  }
+  return devices;
+}
+
+/**
+ * `ffmpeg -sources <pulse|alsa>` output: one `  name [description]` line per source,
+ * the default one marked with `*`.
+ */
+export function parseSourceList(output: string): InputDevice[] {
+  const devices: InputDevice[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const entry = line.match(/^\s*\*?\s*(\S+)\s+\[(.+)\]\s*$/);
+    if (!entry) continue;
+    devices.push({ index: devices.length, name: entry[2], kind: "audio", device: entry[1] });
+  }
+  return devices;
+}
@@ -0,0 +1,71 @@
+import { LocalStorage } from "@raycast/api";
+import { CaptureBackend, InputDevice } from "./backends";
+import type { CaptureBackendId } from "../types";
+
+/** The input device picked in the recorder; overrides the `micDeviceIndex` preference. */
+export type SavedDevice = {
+  backend: CaptureBackendId;
+  device: string; // backend device string at the time it was picked
+  name: string;
+};
+
+const STORAGE_KEY = "inputDevice";
+
+/** Device listing can hang on a wedged audio driver; give up on it after this long. */
+export const LIST_DEVICES_TIMEOUT_MS = 10_000;
+
+export async function loadSavedDevice(): Promise<SavedDevice | undefined> {
+  const raw = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw) as SavedDevice;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function saveDevice(backend: CaptureBackend, device: InputDevice): Promise<SavedDevice> {
+  const saved: SavedDevice = { backend: backend.id, device: device.device, name: device.name };
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  return saved;
+}
+
+export async function clearSavedDevice(): Promise<void> {
+  await LocalStorage.removeItem(STORAGE_KEY);
+}
+
+export type ResolvedDevice = {
+  device: string;
+  name?: string;
+  /** Set when the saved device was found under a different device string (e.g. its index moved). */
+  movedFrom?: string;
+  /** Set when the saved device name is no longer listed; the old device string is used as-is. */
+  missing?: boolean;
+};
+
+/**
+ * The device to record from: the saved choice for this backend, re-resolved by name
+ * (indices shift when USB mics come and go), else the preference.
+ */
+export async function resolveInputDevice(
+  ffmpegPath: string,
+  backend: CaptureBackend,
+  fallback: string,
+): Promise<ResolvedDevice> {
+  const saved = await loadSavedDevice();
+  if (!saved || saved.backend !== backend.id) return { device: fallback };
+
+  let devices: InputDevice[];
+  try {
+    devices = await backend.listDevices(ffmpegPath, AbortSignal.timeout(LIST_DEVICES_TIMEOUT_MS));
+  } catch {
+    return { device: saved.device, name: saved.name };
+  }
+
+  const match = devices.find((d) => d.kind === "audio" && d.name === saved.name);
+  if (!match) return { device: saved.device, name: saved.name, missing: true };
+  if (match.device === saved.device) return { device: saved.device, name: saved.name };
+
+  await saveDevice(backend, match);
+  return { device: match.device, name: match.name, movedFrom: saved.device };
+}
@@ -1,14 +1,22 @@
 import { spawn } from "node:child_process";
-import { mkdtempSync } from "node:fs";
+import { closeSync, mkdtempSync, openSync, promises as fsp } from "node:fs";
 import { tmpdir } from "node:os";
-import { join } from "node:path";
-import { RecordingProcess } from "../types";
+import { basename, dirname, join } from "node:path";
+import type { Readable } from "node:stream";
+import { AudioFormat, CaptureBackendId, RecordingProcess } from "../types";
+import { captureBackend } from "./backends";
 
 export type StartOpts = {
   ffmpegPath: string; // absolute or "ffmpeg"
-  device: string; // e.g. ":0" or ":1"
+  backend?: CaptureBackendId | "auto"; // default: by platform
+  device: string; // in the backend's format, e.g. ":1" (avfoundation), "default" (pulse/alsa), "audio=Mic" (dshow)
   sampleRate?: number; // default 16000
   channels?: 1 | 2; // default 1
+  outPath?: string; // default: note.wav in a fresh temp dir
+  /** Run silencedetect with this minimum duration, logging at info level so `watchSilence` can follow it. */
+  silenceDetect?: { noiseDb: number; minSilenceSec: number };
+  /** Print peak/RMS levels about five times a second, for `watchLevels`. */
+  levels?: boolean;
 };
 
 export type Started = {
@@ -16,18 +24,100 @@ export type Started = {
   wavPath: string;
 };
 
-export function startRecording({ ffmpegPath, device, sampleRate = 16000, channels = 1 }: StartOpts): Started {
-  const dir = mkdtempSync(join(tmpdir(), "raycast-voice-"));
-  const wavPath = join(dir, "note.wav");
+/** Spawn ffmpeg capturing `device` to a temp WAV. Throws if the device isn't valid for the backend. */
+export function startRecording(opts: StartOpts): Started {
+  const { args, wavPath } = recordingCommand(opts);
+  const child = spawn(opts.ffmpegPath, args, { stdio: ["pipe", "pipe", "pipe"] }) as RecordingProcess;
+  return { child, wavPath };
+}
+
+/**
+ * Like `startRecording`, but ffmpeg runs detached with its log going to `logPath`, so it keeps
+ * recording after the command that started it has unloaded. Stop it with `stopDetachedRecording`.
+ */
+export async function startDetachedRecording(
+  opts: StartOpts & { outPath: string; logPath: string },
+): Promise<{ pid: number; wavPath: string }> {
+  const { args, wavPath } = recordingCommand(opts);
+  const log = openSync(opts.logPath, "a");
+  try {
+    const child = spawn(opts.ffmpegPath, ["-nostdin", ...args], { stdio: ["ignore", "ignore", log], detached: true });
+    await new Promise<void>((resolve, reject) => {
+      child.once("spawn", resolve);
+      child.once("error", reject);
+    });
+    child.unref();
+    if (!child.pid) throw new Error(`${basename(opts.ffmpegPath)} didn't start`);
+    return { pid: child.pid, wavPath };
+  } finally {
+    closeSync(log);
+  }
+}
+
+/** SIGINT makes ffmpeg finish the WAV header; it is only killed outright if it doesn't exit in time. */
+export async function stopDetachedRecording(pid: number, timeoutMs = 3000): Promise<void> {
+  const send = (signal: NodeJS.Signals) => {
+    try {
+      process.kill(pid, signal);
+    } catch {
+      // already gone
+    }
+  };
+  send("SIGINT");
+  for (let waited = 0; waited < timeoutMs; waited += 100) {
+    if (!isProcessRunning(pid)) return;
+    await delay(100);
+  }
+  send("SIGKILL");
+}
+
+/** Whether a process with this id exists (signal 0 only checks). */
+export function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e: unknown) {
+    return (e as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/** ffmpeg arguments for a recording, and where it will be written. */
+function recordingCommand({
+  backend,
+  device,
+  sampleRate = 16000,
+  channels = 1,
+  outPath,
+  silenceDetect,
+  levels,
+}: StartOpts): { args: string[]; wavPath: string } {
+  const capture = captureBackend(backend);
+  const invalid = capture.validateDevice(device.trim());
+  if (invalid) throw new Error(invalid);
+
+  const wavPath = outPath ?? join(mkdtempSync(join(tmpdir(), "raycast-voice-")), "note.wav");
+
+  const filters: string[] = [];
+  if (levels) {
+    // Fixed-size frames at the output rate, so each astats reading covers 200 ms.
+    filters.push(
+      `aresample=${sampleRate}`,
+      `asetnsamples=n=${Math.round(sampleRate / 5)}:p=0`,
+      "astats=metadata=1:reset=1",
+      "ametadata=mode=print:key=lavfi.astats.Overall.RMS_level",
+      "ametadata=mode=print:key=lavfi.astats.Overall.Peak_level",
+    );
+  }
+  if (silenceDetect) {
+    filters.push(`silencedetect=noise=${silenceDetect.noiseDb}dB:d=${silenceDetect.minSilenceSec}`);
+  }
 
   const args = [
     "-hide_banner",
-    "-loglevel",
-    "warning",
-    "-f",
-    "avfoundation",
-    "-i",
-    device,
+    // Filters report at info level; -nostats keeps the progress line out of stderr.
+    ...(filters.length ? ["-loglevel", "info", "-nostats"] : ["-loglevel", "warning"]),
+    ...capture.inputArgs(device.trim()),
+    ...(filters.length ? ["-af", filters.join(",")] : []),
     "-ar",
     String(sampleRate),
     "-ac",
@@ -36,9 +126,7 @@ export function startRecording({ ffmpegPath, device, sampleRate = 16000, channel
     "pcm_s16le",
     wavPath,
   ];
-
-  const child = spawn(ffmpegPath, args, { stdio: ["pipe", "pipe", "pipe"] }) as RecordingProcess;
-  return { child, wavPath };
+  return { args, wavPath };
 }
 
 export async function stopRecording(proc: RecordingProcess, timeouts = { q: 700, sigint: 1100 }): Promise<void> {
@@ -75,3 +163,111 @@ export async function stopRecording(proc: RecordingProcess, timeouts = { q: 700,
 function delay(ms: number) {
   return new Promise<boolean>((r) => setTimeout(() => r(false), ms));
 }
+
+/** Call `onLine` for each complete line written to a child's output stream. */
+export function onLines(stream: Readable, onLine: (line: string) => void): void {
+  let buffer = "";
+  stream.on("data", (d: Buffer) => {
+    buffer += d.toString();
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+    lines.forEach(onLine);
+  });
+}
+
+export type FfmpegRun = { code: number | null; stdout: string; stderr: string };
+
+/**
+ * Run a one-shot ffmpeg command to completion, collecting its output (ffmpeg logs everything to stderr).
+ * Aborting `signal` kills ffmpeg and rejects.
+ */
+export function runFfmpeg(ffmpegPath: string, args: string[], signal?: AbortSignal): Promise<FfmpegRun> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(ffmpegPath, ["-hide_banner", "-nostdin", ...args], {
+      stdio: ["ignore", "pipe", "pipe"],
+      signal,
+    });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (d: Buffer) => (stdout += d.toString()));
+    child.stderr.on("data", (d: Buffer) => (stderr += d.toString()));
+    child.once("error", reject);
+    child.once("close", (code) => resolve({ code, stdout, stderr }));
+  });
+}
+
+/** Decode any audio (or video) file ffmpeg understands into the 16 kHz mono PCM WAV the pipeline uses. */
+export async function convertToWav(ffmpegPath: string, inputPath: string, outPath: string): Promise<void> {
+  const { code, stderr } = await runFfmpeg(ffmpegPath, [
+    "-loglevel",
+    "error",
+    "-i",
+    inputPath,
+    "-vn",
+    "-ar",
+    "16000",
+    "-ac",
+    "1",
+    "-c:a",
+    "pcm_s16le",
+    "-y",
+    outPath,
+  ]);
+  if (code !== 0)
+    throw new Error(`Could not convert ${basename(inputPath)}: ${stderr.trim() || `ffmpeg exited with ${code}`}`);
+}
+
+/** File extension per compressed format; Notion's audio block plays both. */
+export const AUDIO_EXTENSIONS: Record<AudioFormat, string> = { opus: ".ogg", aac: ".m4a" };
+
+/** Encode a speech recording compactly: Opus in Ogg at 24 kbps, or AAC in MP4 at 48 kbps. */
+export async function encodeAudio(
+  ffmpegPath: string,
+  inputPath: string,
+  outPath: string,
+  format: AudioFormat,
+): Promise<void> {
+  const codec =
+    format === "opus" ? ["-c:a", "libopus", "-b:a", "24k", "-application", "voip"] : ["-c:a", "aac", "-b:a", "48k"];
+  const { code, stderr } = await runFfmpeg(ffmpegPath, [
+    "-loglevel",
+    "error",
+    "-i",
+    inputPath,
+    "-vn",
+    ...codec,
+    "-y",
+    outPath,
+  ]);
+  if (code !== 0) throw new Error(`Encoding audio failed: ${stderr.trim() || `ffmpeg exited with ${code}`}`);
+}
+
+/**
+ * Join recorded WAV segments (same format, e.g. from pause/resume) into one file with
+ * ffmpeg's concat demuxer, without re-encoding.
+ */
+export async function concatRecordings(ffmpegPath: string, segments: string[], outPath: string): Promise<void> {
+  const listPath = join(dirname(outPath), "segments.txt");
+  // The concat list quotes paths in single quotes; a literal ' is written as '\''.
+  const list = segments.map((p) => `file '${p.replace(/'/g, "'\\''")}'`).join("\n");
+  await fsp.writeFile(listPath, `${list}\n`, "utf8");
+  try {
+    const { code, stderr } = await runFfmpeg(ffmpegPath, [
+      "-loglevel",
+      "error",
+      "-y",
+      "-f",
+      "concat",
+      "-safe",
+      "0",
+      "-i",
+      listPath,
+      "-c",
+      "copy",
+      outPath,
+    ]);
+    if (code !== 0) throw new Error(`Joining segments failed: ${stderr.trim() || `ffmpeg exited with ${code}`}`);
+  } finally {
+    await fsp.unlink(listPath).catch(() => undefined);
+  }
+}
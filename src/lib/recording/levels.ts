@@ -0,0 +1,46 @@
+import type { Readable } from "node:stream";
+import { onLines } from "./ffmpeg";
+
+/** One astats reading; `-Infinity` means digital silence (all-zero samples). */
+export type Level = { peakDb: number; rmsDb: number };
+
+/** Below this the input is effectively all zeros: muted, wrong device, or no permission. */
+export const DIGITAL_SILENCE_DB = -90;
+
+const METER_FLOOR_DB = -60;
+
+/**
+ * Follow the `ametadata` print output of a recording started with `levels: true`
+ * and report each reading. RMS is printed before peak, so a reading completes on peak.
+ */
+export function watchLevels(stderr: Readable, onLevel: (level: Level) => void): void {
+  let rmsDb = -Infinity;
+  onLines(stderr, (line) => {
+    const m = line.match(/lavfi\.astats\.Overall\.(RMS|Peak)_level=(\S+)/);
+    if (!m) return;
+    const db = parseDb(m[2]);
+    if (m[1] === "RMS") rmsDb = db;
+    else onLevel({ peakDb: db, rmsDb });
+  });
+}
+
+/** True for ffmpeg's level and filter chatter, which shouldn't reach the recorder log. */
+export function isMeterLine(line: string): boolean {
+  return /Parsed_(ametadata|astats|silencedetect)|lavfi\.astats|silence(detect|_start|_end)/.test(line);
+}
+
+/** A fixed-width Unicode bar for `db` between -60 dB (empty) and 0 dB (full). */
+export function levelBar(db: number, width = 24): string {
+  const fraction = Number.isFinite(db) ? Math.min(1, Math.max(0, (db - METER_FLOOR_DB) / -METER_FLOOR_DB)) : 0;
+  const filled = Math.round(fraction * width);
+  return "█".repeat(filled) + "░".repeat(width - filled);
+}
+
+export function formatDb(db: number): string {
+  return Number.isFinite(db) ? `${db.toFixed(1)} dB` : "-∞ dB";
+}
+
+function parseDb(value: string): number {
+  const n = Number(value);
+  return Number.isNaN(n) ? -Infinity : n; // "-inf"
+}
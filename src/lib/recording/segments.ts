@@ -0,0 +1,143 @@
+import { promises as fsp } from "node:fs";
+import { join } from "node:path";
+import type { DirPath, FilePath } from "../types";
+import { runFfmpeg } from "./ffmpeg";
+
+/** A detected stretch of silence, in seconds from the start of the file. */
+export type Silence = { start: number; end: number };
+
+/** A slice of the source audio, in seconds. `start` includes the overlap with the previous segment. */
+export type Segment = { index: number; start: number; end: number };
+
+export type SegmentPlanOpts = {
+  targetSec?: number; // preferred segment length, default 600
+  overlapSec?: number; // audio shared with the previous segment, default 2
+  searchSec?: number; // how far back from the target to look for a silence, default 60
+};
+
+/**
+ * Duration of a PCM WAV file, derived from its header and the file size.
+ * The size is used instead of the data chunk length because an interrupted
+ * ffmpeg leaves that field unset.
+ */
+export async function wavDurationSeconds(wavPath: FilePath): Promise<number> {
+  const fh = await fsp.open(wavPath, "r");
+  try {
+    const { size } = await fh.stat();
+    const header = Buffer.alloc(Math.min(size, 4096));
+    await fh.read(header, 0, header.length, 0);
+    if (header.toString("ascii", 0, 4) !== "RIFF" || header.toString("ascii", 8, 12) !== "WAVE") {
+      throw new Error("Not a WAV file");
+    }
+
+    let byteRate = 0;
+    let offset = 12;
+    while (offset + 8 <= header.length) {
+      const id = header.toString("ascii", offset, offset + 4);
+      const len = header.readUInt32LE(offset + 4);
+      if (id === "fmt ") byteRate = header.readUInt32LE(offset + 16);
+      if (id === "data") {
+        if (!byteRate) break;
+        return Math.max(0, size - (offset + 8)) / byteRate;
+      }
+      offset += 8 + len + (len % 2);
+    }
+    throw new Error("WAV header is missing fmt or data chunk");
+  } finally {
+    await fh.close();
+  }
+}
+
+/** Run ffmpeg's silencedetect filter over a file and parse the reported ranges. */
+export async function detectSilences(
+  ffmpegPath: string,
+  audioPath: FilePath,
+  { noiseDb = -35, minSilenceSec = 0.4 } = {},
+): Promise<Silence[]> {
+  const { code, stderr } = await runFfmpeg(ffmpegPath, [
+    "-i",
+    audioPath,
+    "-af",
+    `silencedetect=noise=${noiseDb}dB:d=${minSilenceSec}`,
+    "-f",
+    "null",
+    "-",
+  ]);
+  if (code !== 0) throw new Error(`ffmpeg silencedetect failed (code ${code})`);
+  return parseSilences(stderr);
+}
+
+/** Parse `silence_start` / `silence_end` lines from ffmpeg's silencedetect log output. */
+export function parseSilences(stderr: string): Silence[] {
+  const silences: Silence[] = [];
+  let start: number | null = null;
+  for (const line of stderr.split(/\r?\n/)) {
+    const s = line.match(/silence_start:\s*(-?[\d.]+)/);
+    if (s) {
+      start = Math.max(0, Number(s[1]));
+      continue;
+    }
+    const e = line.match(/silence_end:\s*([\d.]+)/);
+    if (e && start != null) {
+      silences.push({ start, end: Number(e[1]) });
+      start = null;
+    }
+  }
+  return silences;
+}
+
+/**
+ * Split `duration` seconds into segments of roughly `targetSec`, cutting in the
+ * middle of the latest silence before each target boundary when one exists.
+ * Each segment after the first starts `overlapSec` early so no word is lost at a hard cut.
+ */
+export function planSegments(duration: number, silences: Silence[], opts: SegmentPlanOpts = {}): Segment[] {
+  const { targetSec = 600, overlapSec = 2, searchSec = 60 } = opts;
+  const segments: Segment[] = [];
+  let cursor = 0;
+
+  while (duration - cursor > targetSec) {
+    const target = cursor + targetSec;
+    const candidates = silences.filter((s) => {
+      const mid = (s.start + s.end) / 2;
+      return mid > target - searchSec && mid <= target;
+    });
+    const quiet = candidates[candidates.length - 1];
+    const cut = quiet ? (quiet.start + quiet.end) / 2 : target;
+
+    segments.push({ index: segments.length, start: Math.max(0, cursor - overlapSec), end: cut });
+    cursor = cut;
+  }
+  segments.push({
+    index: segments.length,
+    start: Math.max(0, cursor - (segments.length ? overlapSec : 0)),
+    end: duration,
+  });
+  return segments;
+}
+
+/** Write one segment of the source WAV into `dir` without re-encoding. */
+export async function extractSegment(
+  ffmpegPath: string,
+  audioPath: FilePath,
+  segment: Segment,
+  dir: DirPath,
+): Promise<FilePath> {
+  const out = join(dir, `segment-${String(segment.index).padStart(3, "0")}.wav`) as FilePath;
+  const { code, stderr } = await runFfmpeg(ffmpegPath, [
+    "-loglevel",
+    "error",
+    "-ss",
+    segment.start.toFixed(3),
+    "-t",
+    (segment.end - segment.start).toFixed(3),
+    "-i",
+    audioPath,
+    "-c",
+    "copy",
+    "-y",
+    out,
+  ]);
+  if (code !== 0) throw new Error(`ffmpeg failed to extract segment ${segment.index}: ${stderr.trim()}`);
+  return out;
+}
@@ -0,0 +1,93 @@
+import { promises as fsp } from "node:fs";
+import type { Readable } from "node:stream";
+import type { FilePath } from "../types";
+import { onLines, runFfmpeg } from "./ffmpeg";
+import { Silence, detectSilences, wavDurationSeconds } from "./segments";
+
+/** Level below which audio counts as silence, for both auto-stop and trimming. */
+export const SILENCE_NOISE_DB = -35;
+
+export type TrimOpts = {
+  maxGapSec?: number; // internal silences longer than this are shortened, default 2
+  padSec?: number; // silence kept next to speech, default 0.3
+};
+
+/** A stretch of audio to keep, in seconds. */
+export type KeepRange = { start: number; end: number };
+
+/**
+ * Follow a running ffmpeg's silencedetect output and call `onSilence` when a silence
+ * starts (i.e. has lasted the filter's `d` seconds). Fires once per silence.
+ */
+export function watchSilence(stderr: Readable, onSilence: (startSec: number) => void): void {
+  let inSilence = false;
+  onLines(stderr, (line) => {
+    const start = line.match(/silence_start:\s*(-?[\d.]+)/);
+    if (start && !inSilence) {
+      inSilence = true;
+      onSilence(Math.max(0, Number(start[1])));
+    } else if (/silence_end:/.test(line)) {
+      inSilence = false;
+    }
+  });
+}
+
+/**
+ * What to keep of a `duration`-second recording: leading and trailing silence is dropped
+ * and internal silences longer than `maxGapSec` are cut down to `2 × padSec`.
+ */
+export function planTrim(duration: number, silences: Silence[], opts: TrimOpts = {}): KeepRange[] {
+  const { maxGapSec = 2, padSec = 0.3 } = opts;
+  const cuts: KeepRange[] = [];
+  for (const s of silences) {
+    const end = Math.min(s.end, duration);
+    if (s.start <= 0.05) cuts.push({ start: 0, end: Math.max(0, end - padSec) });
+    else if (end >= duration - 0.05) cuts.push({ start: s.start + padSec, end: duration });
+    else if (end - s.start > maxGapSec) cuts.push({ start: s.start + padSec, end: end - padSec });
+  }
+
+  const keep: KeepRange[] = [];
+  let cursor = 0;
+  for (const cut of cuts.filter((c) => c.end > c.start).sort((a, b) => a.start - b.start)) {
+    if (cut.start > cursor) keep.push({ start: cursor, end: cut.start });
+    cursor = Math.max(cursor, cut.end);
+  }
+  if (cursor < duration) keep.push({ start: cursor, end: duration });
+  return keep;
+}
+
+/**
+ * Strip leading, trailing and long internal silences from a WAV in place.
+ * Returns how many seconds were removed (0 when there was nothing worth cutting).
+ */
+export async function trimSilences(ffmpegPath: string, wavPath: FilePath, opts: TrimOpts = {}): Promise<number> {
+  const duration = await wavDurationSeconds(wavPath);
+  const silences = await detectSilences(ffmpegPath, wavPath, { noiseDb: SILENCE_NOISE_DB, minSilenceSec: 0.5 });
+  const keep = planTrim(duration, silences, opts);
+  const kept = keep.reduce((sum, r) => sum + (r.end - r.start), 0);
+  const removed = duration - kept;
+  if (removed < 0.5) return 0;
+  if (!keep.length) throw new Error("Recording is entirely silent");
+
+  // Quoting the expression keeps its commas from being read as filter separators.
+  const expr = keep.map((r) => `between(t,${r.start.toFixed(3)},${r.end.toFixed(3)})`).join("+");
+  const tmp = `${wavPath}.trim.wav`;
+  const { code, stderr } = await runFfmpeg(ffmpegPath, [
+    "-loglevel",
+    "error",
+    "-i",
+    wavPath,
+    "-af",
+    `aselect='${expr}',asetpts=N/SR/TB`,
+    "-c:a",
+    "pcm_s16le",
+    "-y",
+    tmp,
+  ]);
+  if (code !== 0) {
+    await fsp.unlink(tmp).catch(() => undefined);
+    throw new Error(`Trimming silence failed: ${stderr.trim() || `ffmpeg exited with ${code}`}`);
+  }
+  await fsp.rename(tmp, wavPath);
+  return removed;
+}
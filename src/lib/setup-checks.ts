@@ -0,0 +1,258 @@
+import type { GetDatabaseResponse } from "@notionhq/client/build/src/api-endpoints";
+import { normalizeNotionId } from "../services/notion";
+import { notionClient, notionError } from "../services/notion-client";
+import { mapNoteProperties } from "../services/notion-properties";
+import { listOpenAIModels } from "../services/openai";
+import { ApiError, describeError } from "./http";
+import { captureBackend } from "./recording/backends";
+import { resolveInputDevice } from "./recording/devices";
+import { runFfmpeg } from "./recording/ffmpeg";
+import { DIGITAL_SILENCE_DB, formatDb } from "./recording/levels";
+import { propertyMapping } from "./sinks/notion";
+import { listTemplates } from "./templates";
+import type { Prefs } from "./types";
+
+export type CheckStatus = "pass" | "warn" | "fail" | "skip";
+
+/** What a check found, and what to do about it when it didn't pass. */
+export type CheckOutcome = { status: CheckStatus; message: string; fix?: string };
+
+/** One thing the extension needs in order to work. Checks never depend on each other's results. */
+export type SetupCheck = {
+  id: string;
+  title: string;
+  run: (prefs: Prefs) => Promise<CheckOutcome>;
+};
+
+/** Longest a check waits on OpenAI, retries included. */
+const OPENAI_TIMEOUT_MS = 20_000;
+
+/** A recording peaking below this is barely usable for transcription. */
+const QUIET_DB = -50;
+
+const FFMPEG_FIX =
+  "Install ffmpeg (brew install ffmpeg) and set FFmpeg Path to the output of `which ffmpeg`, e.g. /opt/homebrew/bin/ffmpeg. Raycast doesn't see your shell's PATH.";
+
+const MIC_FIX =
+  "Give Raycast microphone access in System Settings → Privacy & Security → Microphone, unmute the input, and pick the right device with “Choose Input Device” in Voice Note - Record.";
+
+/** A sample of every metadata field, to see which mapped properties could hold them. */
+const SAMPLE_METADATA = {
+  recordedAt: new Date().toISOString(),
+  durationSec: 60,
+  language: "en",
+  source: "Voice Note",
+  tags: ["example"],
+};
+
+export const SETUP_CHECKS: SetupCheck[] = [
+  { id: "ffmpeg", title: "FFmpeg", run: checkFfmpeg },
+  { id: "microphone", title: "Microphone", run: checkMicrophone },
+  { id: "openai-key", title: "OpenAI API Key", run: checkOpenAI },
+  { id: "openai-models", title: "OpenAI Models", run: checkModels },
+  { id: "notion-access", title: "Notion Access", run: checkNotionAccess },
+  { id: "notion-properties", title: "Notion Properties", run: checkNotionProperties },
+];
+
+/** Run a check, turning anything it throws into a failure. */
+export async function runCheck(check: SetupCheck, prefs: Prefs): Promise<CheckOutcome> {
+  try {
+    return await check.run(prefs);
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : String(e);
+    return { status: "fail", message, fix: e instanceof ApiError ? describeError(e).message : undefined };
+  }
+}
+
+const pass = (message: string): CheckOutcome => ({ status: "pass", message });
+const warn = (message: string, fix: string): CheckOutcome => ({ status: "warn", message, fix });
+const fail = (message: string, fix: string): CheckOutcome => ({ status: "fail", message, fix });
+const skip = (message: string): CheckOutcome => ({ status: "skip", message });
+
+async function checkFfmpeg(prefs: Prefs): Promise<CheckOutcome> {
+  const ffmpegPath = prefs.ffmpegPath || "ffmpeg";
+  try {
+    const { code, stdout } = await runFfmpeg(ffmpegPath, ["-version"], AbortSignal.timeout(10_000));
+    const version = stdout.match(/^ffmpeg version (\S+)/m)?.[1];
+    if (code === 0 && version) return pass(`ffmpeg ${version} at ${ffmpegPath}`);
+    return fail(`${ffmpegPath} ran but didn't report an ffmpeg version`, FFMPEG_FIX);
+  } catch (e: unknown) {
+    return fail(`Can't run ${ffmpegPath}: ${e instanceof Error ? e.message : String(e)}`, FFMPEG_FIX);
+  }
+}
+
+/** Record one second from the configured device and look at its peak level. */
+async function checkMicrophone(prefs: Prefs): Promise<CheckOutcome> {
+  const ffmpegPath = prefs.ffmpegPath || "ffmpeg";
+  const backend = captureBackend(prefs.captureBackend);
+  const { device, name } = await resolveInputDevice(ffmpegPath, backend, prefs.micDeviceIndex ?? "");
+  if (!device) return fail(`No input device configured for ${backend.label}`, MIC_FIX);
+  const invalid = backend.validateDevice(device.trim());
+  if (invalid) return fail(invalid, `Use a device like ${backend.example}.`);
+
+  const label = name ? `${name} (${device})` : device;
+  let stderr: string;
+  try {
+    const args = [...backend.inputArgs(device.trim()), "-t", "1", "-af", "volumedetect", "-f", "null", "-"];
+    ({ stderr } = await runFfmpeg(ffmpegPath, args, AbortSignal.timeout(15_000)));
+  } catch (e: unknown) {
+    return fail(`Recording from ${label} didn't finish: ${e instanceof Error ? e.message : String(e)}`, MIC_FIX);
+  }
+
+  const peak = stderr.match(/max_volume:\s*(\S+) dB/)?.[1];
+  if (!peak) {
+    const reason = stderr.trim().split("\n").pop() ?? "no audio";
+    return fail(`Couldn't record from ${label}: ${reason}`, MIC_FIX);
+  }
+  const peakDb = peak === "-inf" ? -Infinity : Number(peak);
+  if (!(peakDb > DIGITAL_SILENCE_DB)) return fail(`${label} recorded a second of digital silence`, MIC_FIX);
+  if (peakDb < QUIET_DB) {
+    return warn(
+      `${label} is very quiet (peak ${formatDb(peakDb)})`,
+      "Speak during the check, move closer, or raise the input volume in System Settings → Sound.",
+    );
+  }
+  return pass(`${label} recorded one second, peaking at ${formatDb(peakDb)}`);
+}
+
+async function checkOpenAI(prefs: Prefs): Promise<CheckOutcome> {
+  if (!prefs.openaiApiKey) {
+    return fail("No OpenAI API key", "Add a key from platform.openai.com/api-keys in the extension preferences.");
+  }
+  try {
+    await listOpenAIModels(prefs.openaiApiKey, AbortSignal.timeout(OPENAI_TIMEOUT_MS));
+    return pass("Key accepted");
+  } catch (e: unknown) {
+    if (isTimeout(e)) {
+      return fail(
+        `OpenAI didn't answer within ${OPENAI_TIMEOUT_MS / 1000}s`,
+        "Check your internet connection or proxy.",
+      );
+    }
+    if (!(e instanceof ApiError)) throw e;
+    if (e.kind === "auth") return fail("Key rejected", "Check the key at platform.openai.com/api-keys.");
+    if (e.kind === "network" || e.kind === "timeout") {
+      return fail(e.message, "Check your internet connection or proxy; the key wasn't checked.");
+    }
+    return fail(e.message, describeError(e).message);
+  }
+}
+
+/** The models cleanup and (with the OpenAI provider) transcription will ask for. */
+async function checkModels(prefs: Prefs): Promise<CheckOutcome> {
+  if (!prefs.openaiApiKey) return skip("Needs an OpenAI API key");
+  const templates = await listTemplates();
+  const required = new Set(["gpt-4.1-mini", ...templates.flatMap((t) => (t.model ? [t.model] : []))]);
+  if ((prefs.transcriptionProvider ?? "openai") === "openai") {
+    required.add(prefs.transcriptionModel || "gpt-4o-mini-transcribe");
+  }
+
+  let available: Set<string>;
+  try {
+    available = new Set(await listOpenAIModels(prefs.openaiApiKey, AbortSignal.timeout(OPENAI_TIMEOUT_MS)));
+  } catch (e: unknown) {
+    if (isTimeout(e)) return skip("OpenAI didn't answer in time");
+    throw e;
+  }
+  const missing = [...required].filter((model) => !available.has(model));
+  if (missing.length) {
+    return fail(
+      `Not available to this key: ${missing.join(", ")}`,
+      "Fix the model name in preferences or your cleanup templates, or allow the model for your project at platform.openai.com.",
+    );
+  }
+  return pass(`Available: ${[...required].join(", ")}`);
+}
+
+async function checkNotionAccess(prefs: Prefs): Promise<CheckOutcome> {
+  if (!prefs.outputNotion) return skip("Notion output is turned off");
+  if (!prefs.notionToken) {
+    return fail(
+      "No Notion integration token",
+      "Create an internal integration at notion.so/profile/integrations and paste its secret into the preferences.",
+    );
+  }
+
+  if (prefs.notionMode === "append") {
+    if (!prefs.notionPageId) return fail("No page ID for “Append to Existing Page”", "Set Notion Page ID.");
+    try {
+      await notionClient(prefs.notionToken).pages.retrieve({ page_id: normalizeNotionId(prefs.notionPageId) });
+      return pass("The integration can open the page");
+    } catch (e: unknown) {
+      return notionFailure(e, "page");
+    }
+  }
+
+  if (!prefs.notionDatabaseId) return fail("No database ID", "Set Notion Database ID.");
+  try {
+    const db = await retrieveDatabase(prefs.notionToken, prefs.notionDatabaseId);
+    const title =
+      "title" in db
+        ? db.title
+            .map((t) => t.plain_text)
+            .join("")
+            .trim()
+        : "";
+    return pass(title ? `The integration can open “${title}”` : "The integration can open the database");
+  } catch (e: unknown) {
+    return notionFailure(e, "database");
+  }
+}
+
+/** The title property, the daily-page date property and every property mapped in preferences. */
+async function checkNotionProperties(prefs: Prefs): Promise<CheckOutcome> {
+  if (!prefs.outputNotion || !prefs.notionToken) return skip("Notion output is off or has no token");
+  if (prefs.notionMode === "append") return skip("Notes are appended to a page, which has no properties");
+  if (!prefs.notionDatabaseId) return skip("Needs a database ID");
+
+  let db: GetDatabaseResponse;
+  try {
+    db = await retrieveDatabase(prefs.notionToken, prefs.notionDatabaseId);
+  } catch {
+    return skip("Fix Notion access first");
+  }
+
+  const schema = db.properties;
+  const titleProp = Object.keys(schema).find((name) => schema[name].type === "title");
+  if (!titleProp) return fail("The database has no title property", "Add a title property to the database in Notion.");
+
+  const problems = [...mapNoteProperties(schema, propertyMapping(prefs), SAMPLE_METADATA).skipped];
+  const dateProp = prefs.notionMode === "daily" ? prefs.dailyDateProperty : undefined;
+  if (dateProp && schema[dateProp]?.type !== "date") {
+    problems.push(
+      `daily date: ${schema[dateProp] ? `"${dateProp}" is a ${schema[dateProp].type}` : `no "${dateProp}"`} property`,
+    );
+  }
+  if (problems.length) {
+    return warn(
+      problems.join("; "),
+      "Rename or change the type of the property in Notion, or fix the name in preferences. Notes still publish without these fields.",
+    );
+  }
+
+  const mapped = Object.values(propertyMapping(prefs)).filter(Boolean);
+  return pass(`Title property “${titleProp}”${mapped.length ? `; mapped: ${mapped.join(", ")}` : ""}`);
+}
+
+/** `AbortSignal.timeout` rejects with a TimeoutError rather than an `ApiError`. */
+function isTimeout(e: unknown): boolean {
+  return e instanceof Error && e.name === "TimeoutError";
+}
+
+function retrieveDatabase(notionToken: string, databaseId: string): Promise<GetDatabaseResponse> {
+  return notionClient(notionToken).databases.retrieve({ database_id: normalizeNotionId(databaseId) });
+}
+
+function notionFailure(e: unknown, target: "page" | "database"): CheckOutcome {
+  const error = notionError(e);
+  if (!(error instanceof ApiError)) throw error;
+  if (error.kind === "auth")
+    return fail(error.message, "Copy the integration secret into Notion Integration Token again.");
+  if (error.status === 404) {
+    return fail(
+      `The integration can't see this ${target}`,
+      `Open the ${target} in Notion, choose ••• → Connections and add your integration; also check the ID in preferences.`,
+    );
+  }
+  return fail(error.message, describeError(error).message);
+}
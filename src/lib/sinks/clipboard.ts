@@ -0,0 +1,14 @@
+import { Clipboard } from "@raycast/api";
+import type { NoteSink } from ".";
+
+/** Copies the cleaned Markdown to the clipboard. */
+export function clipboardSink(): NoteSink {
+  return {
+    id: "clipboard",
+    label: "Clipboard",
+    publish: async ({ markdown }) => {
+      await Clipboard.copy(markdown);
+      return { summary: "Copied to clipboard" };
+    },
+  };
+}
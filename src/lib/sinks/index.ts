@@ -0,0 +1,50 @@
+import type { NoteMetadata } from "../../services/notion-properties";
+import type { ActionItem } from "../../services/openai";
+import type { FilePath, Prefs, Transcript } from "../types";
+import { clipboardSink } from "./clipboard";
+import { markdownFileSink } from "./markdown-file";
+import { notionSink } from "./notion";
+
+export type SinkId = "notion" | "markdown-file" | "clipboard";
+
+/** What every sink receives: the cleaned note plus whatever we know about the recording. */
+export type SinkNote = {
+  id: string;
+  markdown: string;
+  title?: string; // explicit title; without one, sinks take the markdown's H1
+  createdAt: string;
+  metadata: NoteMetadata;
+  tasks?: ActionItem[];
+  originalMarkdown?: string; // the note in the spoken language, when `markdown` is a translation
+  transcript?: Transcript; // raw, before cleanup
+  audioPath?: FilePath; // compressed recording to attach, if kept
+  audioUploadId?: string; // an upload of `audioPath` left by an earlier, failed attempt
+  saveAudioUpload?: (id: string) => Promise<void>; // remembers an upload so a retry can reuse it
+};
+
+export type SinkResult = {
+  summary: string; // e.g. "Notion page created"
+  title?: string;
+  location?: string; // URL or file path of what was written
+  details?: string[]; // extra lines for the log
+  keepsAudio?: boolean; // points at the local audio file, so it must not be deleted
+};
+
+/** A destination for finished notes. */
+export type NoteSink = {
+  id: SinkId;
+  label: string;
+  publish: (note: SinkNote) => Promise<SinkResult>;
+};
+
+export const SINK_IDS: SinkId[] = ["notion", "markdown-file", "clipboard"];
+
+/** The sinks enabled in preferences, or exactly those in `only`, in a stable order. */
+export function sinksFromPrefs(prefs: Prefs, only?: SinkId[]): NoteSink[] {
+  const wanted = (id: SinkId, enabled?: boolean) => (only ? only.includes(id) : !!enabled);
+  const sinks: NoteSink[] = [];
+  if (wanted("notion", prefs.outputNotion)) sinks.push(notionSink(prefs));
+  if (wanted("markdown-file", prefs.outputMarkdownFile)) sinks.push(markdownFileSink(prefs));
+  if (wanted("clipboard", prefs.outputClipboard)) sinks.push(clipboardSink());
+  return sinks;
+}
@@ -0,0 +1,99 @@
+import { existsSync } from "node:fs";
+import { mkdir, open } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { NoteMetadata } from "../../services/notion-properties";
+import type { Prefs } from "../types";
+import type { NoteSink } from ".";
+
+const DEFAULT_TEMPLATE = "{{date}} {{title}}";
+
+/**
+ * Writes a `.md` file with YAML front matter into a folder. Pointing the folder at
+ * (a subfolder of) an Obsidian vault makes the note show up there directly.
+ */
+export function markdownFileSink(prefs: Prefs): NoteSink {
+  return {
+    id: "markdown-file",
+    label: "Markdown File",
+    publish: async ({ id, markdown, title: explicitTitle, metadata, createdAt }) => {
+      const folder = prefs.markdownFolder;
+      if (!folder) throw new Error("No Markdown output folder configured");
+
+      const at = new Date(metadata.recordedAt ?? createdAt);
+      const title = explicitTitle?.trim() || markdown.match(/^#\s+(.+)$/m)?.[1]?.trim() || "Voice Note";
+      const stem = renderFilename(prefs.markdownFilenameTemplate || DEFAULT_TEMPLATE, { title, at, id });
+
+      await mkdir(folder, { recursive: true });
+      const path = await writeUnique(folder, stem, `${frontMatter(title, metadata)}\n${markdown.trim()}\n`);
+
+      const vault = findObsidianVault(folder);
+      return {
+        summary: vault ? "Saved to Obsidian vault" : "Saved Markdown file",
+        title,
+        location: vault ? `obsidian://open?path=${encodeURIComponent(path)}` : path,
+        details: vault ? [path] : undefined,
+      };
+    },
+  };
+}
+
+/** Fill `{{title}}`, `{{date}}`, `{{time}}` and `{{id}}`, then strip characters that aren't safe in file names. */
+export function renderFilename(template: string, vars: { title: string; at: Date; id: string }): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const { at } = vars;
+  const values: Record<string, string> = {
+    title: vars.title,
+    date: `${at.getFullYear()}-${pad(at.getMonth() + 1)}-${pad(at.getDate())}`,
+    time: `${pad(at.getHours())}-${pad(at.getMinutes())}`,
+    id: vars.id,
+  };
+  const name = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (whole, key: string) => values[key] ?? whole);
+  return (
+    name
+      .replace(/[/\\:*?"<>|#^[\]]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, 180) || "Voice Note"
+  );
+}
+
+/** YAML front matter; strings are emitted JSON-quoted, which YAML reads as double-quoted scalars. */
+function frontMatter(title: string, meta: NoteMetadata): string {
+  const lines = ["---", `title: ${JSON.stringify(title)}`];
+  if (meta.recordedAt) lines.push(`date: ${JSON.stringify(meta.recordedAt)}`);
+  if (meta.durationSec != null) lines.push(`duration: ${Math.round(meta.durationSec)}`);
+  if (meta.language) lines.push(`language: ${JSON.stringify(meta.language)}`);
+  if (meta.source) lines.push(`source: ${JSON.stringify(meta.source)}`);
+  if (meta.tags?.length) lines.push("tags:", ...meta.tags.map((tag) => `  - ${JSON.stringify(tag)}`));
+  lines.push("---", "");
+  return lines.join("\n");
+}
+
+/** Create `<stem>.md`, or `<stem> 2.md`, `<stem> 3.md`… if taken. Never overwrites. */
+async function writeUnique(folder: string, stem: string, content: string): Promise<string> {
+  for (let n = 1; ; n++) {
+    const path = join(folder, `${n === 1 ? stem : `${stem} ${n}`}.md`);
+    try {
+      const fh = await open(path, "wx");
+      try {
+        await fh.writeFile(content, "utf8");
+      } finally {
+        await fh.close();
+      }
+      return path;
+    } catch (e: unknown) {
+      if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+    }
+  }
+}
+
+/** Walk up from `folder` looking for the `.obsidian` directory that marks a vault root. */
+function findObsidianVault(folder: string): string | null {
+  let dir = folder;
+  for (;;) {
+    if (existsSync(join(dir, ".obsidian"))) return dir;
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
@@ -0,0 +1,168 @@
+import {
+  appendNoteToDailyPage,
+  appendNoteToPage,
+  createNotionPageFromMarkdown,
+  normalizeNotionId,
+} from "../../services/notion";
+import type { BlockObjectRequest } from "@notionhq/client/build/src/api-endpoints";
+import { audioAttachmentBlocks } from "../../services/notion-audio";
+import { notionError } from "../../services/notion-client";
+import type { PropertyMapping } from "../../services/notion-properties";
+import { createTaskRows } from "../../services/notion-tasks";
+import type { ActionItem } from "../../services/openai";
+import type { Prefs } from "../types";
+import type { NoteSink, SinkNote, SinkResult } from ".";
+
+/**
+ * Publishes to Notion as a new database page, or appended to a fixed or daily page (see `notionMode`).
+ * Action items become to-dos on the page and, with a tasks database configured, rows there too.
+ */
+export function notionSink(prefs: Prefs): NoteSink {
+  return {
+    id: "notion",
+    label: "Notion",
+    // The client's own errors carry a raw status; translate them so the toast says what to fix.
+    publish: (note) =>
+      publishNote(prefs, note).catch((e: unknown) => {
+        throw notionError(e);
+      }),
+  };
+}
+
+async function publishNote(prefs: Prefs, note: SinkNote): Promise<SinkResult> {
+  const notionToken = prefs.notionToken;
+  if (!notionToken) throw new Error("No Notion token configured");
+
+  // Uploaded up front: the audio block goes into the page in the same request as the note.
+  // The upload is remembered on the note, so retrying a failed publish doesn't upload it again.
+  const attachment = note.audioPath
+    ? await audioAttachmentBlocks({
+        notionToken,
+        filePath: note.audioPath,
+        maxBytes: uploadLimitBytes(prefs),
+        uploadId: note.audioUploadId,
+        onUploaded: note.saveAudioUpload,
+      })
+    : undefined;
+  const result = await publishPage(prefs, notionToken, note, attachment?.blocks);
+  if (!attachment) return result;
+  return { ...result, details: [attachment.detail, ...(result.details ?? [])], keepsAudio: !attachment.uploaded };
+}
+
+async function publishPage(
+  prefs: Prefs,
+  notionToken: string,
+  { markdown, title: explicitTitle, metadata, createdAt, tasks, originalMarkdown, transcript: raw }: SinkNote,
+  audio: BlockObjectRequest[] | undefined,
+): Promise<SinkResult> {
+  const transcript = prefs.notionTranscript ? raw : undefined;
+  const original = originalMarkdown ? { markdown: originalMarkdown, language: metadata.language } : undefined;
+  const at = new Date(metadata.recordedAt ?? createdAt);
+
+  if (prefs.notionMode === "append") {
+    if (!prefs.notionPageId) throw new Error("No Notion page ID configured for append mode");
+    const result = await appendNoteToPage({
+      notionToken,
+      pageId: prefs.notionPageId,
+      markdown,
+      explicitTitle,
+      at,
+      tasks,
+      original,
+      transcript,
+      audio,
+    });
+    const details = await taskRows(prefs, tasks, result.pageId);
+    return { summary: "Appended to Notion page", title: result.title, location: result.url, details };
+  }
+
+  if (!prefs.notionDatabaseId) throw new Error("No Notion database ID configured");
+
+  if (prefs.notionMode === "daily") {
+    const result = await appendNoteToDailyPage({
+      notionToken,
+      databaseId: prefs.notionDatabaseId,
+      dateProperty: prefs.dailyDateProperty,
+      markdown,
+      explicitTitle,
+      at,
+      tasks,
+      original,
+      transcript,
+      audio,
+    });
+    const summary = result.created ? "Created daily page and appended note" : "Appended to daily page";
+    const details = await taskRows(prefs, tasks, result.pageId, prefs.notionDatabaseId);
+    return { summary, title: result.title, location: result.url, details };
+  }
+
+  const result = await createNotionPageFromMarkdown({
+    notionToken,
+    databaseId: prefs.notionDatabaseId,
+    markdown,
+    explicitTitle,
+    metadata,
+    propertyMap: propertyMapping(prefs),
+    tasks,
+    original,
+    transcript,
+    audio,
+  });
+  if (!result?.pageId) throw new Error("Failed to create Notion page");
+  return {
+    summary: "Notion page created",
+    title: result.title,
+    location: result.url,
+    details: [
+      ...result.skippedProperties.map((reason) => `Skipped property ${reason}`),
+      ...(await taskRows(prefs, tasks, result.pageId, prefs.notionDatabaseId)),
+    ],
+  };
+}
+
+/** Which database property each metadata field goes into, from the "… Property" preferences. */
+export function propertyMapping(prefs: Prefs): PropertyMapping {
+  return {
+    tags: prefs.tagsProperty,
+    recordedAt: prefs.recordedAtProperty,
+    durationSec: prefs.durationProperty,
+    language: prefs.languageProperty,
+    source: prefs.sourceProperty,
+  };
+}
+
+/** The Attach Audio size limit in bytes; blank or invalid means the free-plan 5 MB. */
+function uploadLimitBytes(prefs: Prefs): number {
+  const mb = Number(prefs.audioUploadLimitMb);
+  return (Number.isFinite(mb) && mb > 0 ? mb : 5) * 1024 * 1024;
+}
+
+/**
+ * Mirror the note's action items into the tasks database, if one is configured.
+ * The note page already exists at this point, so failures are reported rather than
+ * thrown — throwing would publish the page a second time on retry.
+ */
+async function taskRows(
+  prefs: Prefs,
+  tasks: ActionItem[] | undefined,
+  sourcePageId: string,
+  sourceDatabaseId?: string,
+): Promise<string[]> {
+  if (!prefs.tasksDatabaseId || !tasks?.length) return [];
+  try {
+    const result = await createTaskRows({
+      notionToken: prefs.notionToken ?? "",
+      databaseId: normalizeNotionId(prefs.tasksDatabaseId),
+      tasks,
+      sourcePageId,
+      sourceDatabaseId: sourceDatabaseId ? normalizeNotionId(sourceDatabaseId) : undefined,
+    });
+    return [
+      `Added ${result.created} task(s) to the tasks database${result.relation ? ` (linked via "${result.relation}")` : ""}`,
+      ...result.skipped.map((reason) => `Skipped task ${reason}`),
+    ];
+  } catch (e: unknown) {
+    const err = notionError(e);
+    return [`Could not add tasks to the tasks database: ${err instanceof Error ? err.message : String(err)}`];
+  }
+}
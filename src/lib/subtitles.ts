@@ -0,0 +1,109 @@
+import { Toast, showInFinder, showToast } from "@raycast/api";
+import { promises as fsp } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { TranscriptSegment } from "./types";
+
+export type SubtitleFormat = "srt" | "vtt";
+
+/** `[mm:ss]`, or `[h:mm:ss]` past the first hour. */
+export function clockLabel(sec: number): string {
+  const s = Math.max(0, Math.floor(sec));
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const h = Math.floor(s / 3600);
+  const mm = `${pad(Math.floor((s % 3600) / 60))}:${pad(s % 60)}`;
+  return `[${h ? `${h}:${mm}` : mm}]`;
+}
+
+/** `hh:mm:ss,mmm` (SRT) or `hh:mm:ss.mmm` (VTT). */
+export function subtitleTimestamp(sec: number, format: SubtitleFormat): string {
+  const ms = Math.max(0, Math.round(sec * 1000));
+  const pad = (n: number, w = 2) => String(n).padStart(w, "0");
+  const clock = `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}`;
+  return `${clock}${format === "srt" ? "," : "."}${pad(ms % 1000, 3)}`;
+}
+
+export function toSrt(segments: TranscriptSegment[]): string {
+  return segments
+    .map(
+      (seg, i) =>
+        `${i + 1}\n${subtitleTimestamp(seg.start, "srt")} --> ${subtitleTimestamp(seg.end, "srt")}\n${seg.text.trim()}\n`,
+    )
+    .join("\n");
+}
+
+export function toVtt(segments: TranscriptSegment[]): string {
+  const cues = segments.map(
+    (seg) => `${subtitleTimestamp(seg.start, "vtt")} --> ${subtitleTimestamp(seg.end, "vtt")}\n${seg.text.trim()}\n`,
+  );
+  return ["WEBVTT\n", ...cues].join("\n");
+}
+
+/** Parse SRT (or VTT) cues back into segments. Cue numbers and styling lines are ignored. */
+export function parseSubtitles(content: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  for (const cue of content.replace(/\r/g, "").split(/\n{2,}/)) {
+    const lines = cue.split("\n");
+    const timing = lines.findIndex((l) => l.includes("-->"));
+    if (timing < 0) continue;
+    const [start, end] = lines[timing].split("-->").map((t) => parseTimestamp(t.trim().split(/\s+/)[0]));
+    const text = lines
+      .slice(timing + 1)
+      .join(" ")
+      .trim();
+    if (text && Number.isFinite(start) && Number.isFinite(end)) segments.push({ start, end, text });
+  }
+  return segments;
+}
+
+/** `hh:mm:ss,mmm`, `hh:mm:ss.mmm` or `mm:ss.mmm` → seconds. */
+export function parseTimestamp(value: string): number {
+  const parts = value.replace(",", ".").split(":").map(Number);
+  return parts.reduce((acc, part) => acc * 60 + part, 0);
+}
+
+/**
+ * Write a note's segments as subtitles into ~/Downloads and return the file path.
+ * Existing files are not overwritten.
+ */
+export async function exportSubtitles(
+  segments: TranscriptSegment[],
+  title: string,
+  format: SubtitleFormat,
+): Promise<string> {
+  if (!segments.length) throw new Error("This note has no timestamps");
+  const dir = join(homedir(), "Downloads");
+  await fsp.mkdir(dir, { recursive: true });
+  const stem =
+    title
+      .replace(/[/\\:*?"<>|]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, 120) || "Voice Note";
+
+  const content = format === "srt" ? toSrt(segments) : toVtt(segments);
+  for (let n = 1; ; n++) {
+    const path = join(dir, `${n === 1 ? stem : `${stem} ${n}`}.${format}`);
+    try {
+      await fsp.writeFile(path, content, { encoding: "utf8", flag: "wx" });
+      return path;
+    } catch (e: unknown) {
+      if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+    }
+  }
+}
+
+/** `exportSubtitles` for an action: reveals the file in Finder, or shows the error. */
+export async function exportTranscript(segments: TranscriptSegment[], title: string, format: SubtitleFormat) {
+  try {
+    const path = await exportSubtitles(segments, title, format);
+    await showToast({ style: Toast.Style.Success, title: `Exported ${format.toUpperCase()}`, message: path });
+    await showInFinder(path);
+  } catch (e: unknown) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Export failed",
+      message: e instanceof Error ? e.message : String(e),
+    });
+  }
+}
@@ -0,0 +1,141 @@
+import { environment } from "@raycast/api";
+import { randomBytes } from "node:crypto";
+import { promises as fsp } from "node:fs";
+import { join } from "node:path";
+import { DEFAULT_CLEANUP_PROMPT } from "../services/openai";
+
+/** How a transcript is turned into a note. Built-in modes and user templates share this shape. */
+export type CleanupTemplate = {
+  id: string;
+  name: string;
+  /**
+   * Instructions for the model. `{{date}}` and `{{language}}` are filled in; if
+   * `{{transcript}}` appears, the whole prompt is sent as the user message,
+   * otherwise it is the system prompt and the transcript follows separately.
+   */
+  prompt: string;
+  model?: string; // default: "gpt-4.1-mini"
+  temperature?: number; // default: 0.2
+  builtIn?: boolean;
+};
+
+export const DEFAULT_TEMPLATE_ID = "standard";
+
+const TITLE_RULE = "Start with an H1 that works as a concise title. Reply in Markdown only.";
+
+export const BUILT_IN_TEMPLATES: CleanupTemplate[] = [
+  { id: DEFAULT_TEMPLATE_ID, name: "Standard Note", prompt: DEFAULT_CLEANUP_PROMPT, builtIn: true },
+  {
+    id: "verbatim-lite",
+    name: "Verbatim (Light Cleanup)",
+    prompt: `Clean up this transcription as lightly as possible: remove filler words (um, uh, like), stutters and
+false starts, and fix punctuation and casing. Keep every sentence and the speaker's own wording and order.
+Split into paragraphs where the topic changes. ${TITLE_RULE}`,
+    temperature: 0,
+    builtIn: true,
+  },
+  {
+    id: "meeting-minutes",
+    name: "Meeting Minutes",
+    prompt: `Turn this meeting transcription from {{date}} into minutes. Use these sections: "Attendees"
+(names mentioned as present; write "Not stated" if none), "Summary", "Decisions" and "Action Items" as a
+task list ("- [ ] Owner: task (due date if mentioned)"). Only include what was actually said. ${TITLE_RULE}`,
+    builtIn: true,
+  },
+  {
+    id: "journal",
+    name: "Journal Entry",
+    prompt: `Rewrite this spoken journal entry from {{date}} as a first-person journal entry. Keep the speaker's
+voice, feelings and details, remove filler and repetition, and organise it into short paragraphs. ${TITLE_RULE}`,
+    temperature: 0.4,
+    builtIn: true,
+  },
+  {
+    id: "idea-dump",
+    name: "Idea Dump → Bullets",
+    prompt: `This transcription is a brain dump of ideas. Extract every distinct idea as a bullet point, grouping
+related ideas under H2 headings. Keep each bullet short; nest supporting details under their idea.
+Do not add ideas that were not spoken. ${TITLE_RULE}`,
+    builtIn: true,
+  },
+  {
+    id: "email-draft",
+    name: "Email Draft",
+    prompt: `Turn this dictated message into a clear, polite email in {{language}}. Put the subject line as the H1,
+then the greeting, body paragraphs and sign-off. Keep the facts and requests exactly as dictated.
+Reply in Markdown only.`,
+    temperature: 0.3,
+    builtIn: true,
+  },
+];
+
+function templatesFile(): string {
+  return join(environment.supportPath, "templates.json");
+}
+
+/** Templates the user created, in the order they were added. */
+export async function listUserTemplates(): Promise<CleanupTemplate[]> {
+  try {
+    const raw = await fsp.readFile(templatesFile(), "utf8");
+    const parsed = JSON.parse(raw) as CleanupTemplate[];
+    return Array.isArray(parsed) ? parsed.map((t) => ({ ...t, builtIn: false })) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Built-in modes first, then user templates. */
+export async function listTemplates(): Promise<CleanupTemplate[]> {
+  return [...BUILT_IN_TEMPLATES, ...(await listUserTemplates())];
+}
+
+/** Look a template up by id, falling back to the standard mode if it no longer exists. */
+export async function getTemplate(id: string | undefined): Promise<CleanupTemplate> {
+  const all = await listTemplates();
+  return all.find((t) => t.id === id) ?? BUILT_IN_TEMPLATES[0];
+}
+
+/** Insert or replace a user template. New templates get an id. */
+export async function saveUserTemplate(template: Omit<CleanupTemplate, "id" | "builtIn"> & { id?: string }) {
+  const templates = await listUserTemplates();
+  const saved: CleanupTemplate = { ...template, id: template.id || `user-${randomBytes(4).toString("hex")}` };
+  const i = templates.findIndex((t) => t.id === saved.id);
+  if (i >= 0) templates[i] = saved;
+  else templates.push(saved);
+  await writeUserTemplates(templates);
+  return saved;
+}
+
+export async function deleteUserTemplate(id: string): Promise<void> {
+  await writeUserTemplates((await listUserTemplates()).filter((t) => t.id !== id));
+}
+
+/** The system/user messages for a template, with placeholders filled in. */
+export function renderTemplate(
+  template: CleanupTemplate,
+  vars: { transcript: string; date: Date; language?: string },
+): { systemPrompt?: string; userPrompt?: string } {
+  const values: Record<string, string> = {
+    transcript: vars.transcript,
+    date: vars.date.toLocaleDateString(undefined, { year: "numeric", month: "long", day: "numeric" }),
+    language: vars.language || "the language of the transcript",
+  };
+  const prompt = template.prompt.replace(/\{\{\s*(\w+)\s*\}\}/g, (whole, key: string) => values[key] ?? whole);
+
+  if (/\{\{\s*transcript\s*\}\}/.test(template.prompt)) {
+    return {
+      systemPrompt: "You turn voice note transcriptions into well-structured Markdown notes.",
+      userPrompt: prompt,
+    };
+  }
+  return { systemPrompt: prompt };
+}
+
+async function writeUserTemplates(templates: CleanupTemplate[]): Promise<void> {
+  await fsp.mkdir(environment.supportPath, { recursive: true });
+  const file = templatesFile();
+  const tmp = `${file}.tmp`;
+  const stored = templates.map((t) => ({ ...t, builtIn: undefined }));
+  await fsp.writeFile(tmp, JSON.stringify(stored, null, 2), "utf8");
+  await fsp.rename(tmp, file);
+}
@@ -0,0 +1,146 @@
+import { rm } from "node:fs/promises";
+import type { TranscriptionProvider } from "../services/transcription";
+import { makeTempDir } from "./path";
+import { detectSilences, extractSegment, planSegments, wavDurationSeconds } from "./recording/segments";
+import type { FilePath, Transcript, TranscriptSegment } from "./types";
+
+const OVERLAP_SEC = 2;
+const CONCURRENCY = 3;
+
+export type ChunkProgress = { done: number; total: number };
+
+export type TranscribeOpts = {
+  ffmpegPath: string;
+  provider: TranscriptionProvider;
+  language?: string;
+  prompt?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: ChunkProgress) => void;
+};
+
+/**
+ * Transcribe a WAV of any length. Files within the provider's segment limit go up in
+ * one call; longer ones are split at silences into overlapping segments that are
+ * transcribed in parallel and stitched back together. Segment timings, when the
+ * provider reports them, are shifted onto the whole recording's timeline.
+ */
+export async function transcribeRecording(audioPath: FilePath, opts: TranscribeOpts): Promise<Transcript> {
+  const { ffmpegPath, provider, onProgress, ...rest } = opts;
+  const segmentSec = provider.maxSegmentSec;
+  const duration = segmentSec ? await wavDurationSeconds(audioPath) : 0;
+
+  if (!segmentSec || duration <= segmentSec) {
+    onProgress?.({ done: 0, total: 1 });
+    const transcript = await provider.transcribe(audioPath, rest);
+    onProgress?.({ done: 1, total: 1 });
+    return transcript;
+  }
+
+  // Silence detection is best effort; without it we fall back to fixed-length cuts.
+  const silences = await detectSilences(ffmpegPath, audioPath).catch(() => []);
+  const segments = planSegments(duration, silences, { targetSec: segmentSec, overlapSec: OVERLAP_SEC });
+  const dir = makeTempDir("raycast-voice-segments-");
+
+  try {
+    let done = 0;
+    onProgress?.({ done, total: segments.length });
+    const parts = await mapWithConcurrency(
+      segments,
+      CONCURRENCY,
+      async (segment, signal) => {
+        signal.throwIfAborted();
+        const file = await extractSegment(ffmpegPath, audioPath, segment, dir);
+        const part = await provider.transcribe(file, { ...rest, signal });
+        await rm(file, { force: true });
+        onProgress?.({ done: ++done, total: segments.length });
+        return part;
+      },
+      rest.signal,
+    );
+
+    const text = parts.map((p) => p.text).reduce((acc, t) => stitchTranscripts(acc, t));
+    const language = mostCommon(parts.map((p) => p.language));
+    if (parts.some((p) => !p.segments)) return { text, language };
+    // Timings are relative to each chunk; drop the ones inside the overlap already covered by the previous chunk.
+    const timed = parts.flatMap((part, i) => {
+      const offset = segments[i].start;
+      const from = i ? offset + OVERLAP_SEC : 0;
+      return (part.segments ?? [])
+        .map((seg): TranscriptSegment => ({ ...seg, start: seg.start + offset, end: seg.end + offset }))
+        .filter((seg) => (seg.start + seg.end) / 2 >= from);
+    });
+    return { text, segments: timed, language };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Join two consecutive transcripts, dropping the words at the start of `next`
+ * that repeat the end of `prev` (the audio overlap). A couple of leading words of
+ * `next` may be skipped when looking for the match, since a cut mid-word tends
+ * to produce a stray fragment.
+ */
+export function stitchTranscripts(prev: string, next: string, maxWords = 30, maxSkip = 3): string {
+  const a = prev.trim().split(/\s+/).filter(Boolean);
+  const b = next.trim().split(/\s+/).filter(Boolean);
+  if (!a.length) return b.join(" ");
+  if (!b.length) return a.join(" ");
+
+  const norm = (w: string) => w.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+  const na = a.map(norm);
+  const nb = b.map(norm);
+
+  for (let k = Math.min(maxWords, na.length, nb.length); k >= 2; k--) {
+    for (let skip = 0; skip <= maxSkip && skip + k <= nb.length; skip++) {
+      let match = true;
+      for (let i = 0; i < k; i++) {
+        if (na[na.length - k + i] !== nb[skip + i]) {
+          match = false;
+          break;
+        }
+      }
+      if (match) return [...a, ...b.slice(skip + k)].join(" ");
+    }
+  }
+  return [...a, ...b].join(" ");
+}
+
+/** Chunks are detected separately; the language most of them were in wins. */
+function mostCommon(values: (string | undefined)[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const v of values) if (v) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/**
+ * Like Promise.all over `items.map(fn)`, but with at most `limit` calls in flight. Keeps input order.
+ * The first failure aborts the `signal` given to the calls still running and stops new ones; it's
+ * rethrown once they have all settled, so nothing is still working when the caller cleans up.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, signal: AbortSignal) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const controller = new AbortController();
+  const callSignal = signal ? AbortSignal.any([signal, controller.signal]) : controller.signal;
+  let failure: { error: unknown } | undefined;
+  let next = 0;
+  const worker = async () => {
+    while (!failure && next < items.length) {
+      const i = next++;
+      try {
+        results[i] = await fn(items[i], callSignal);
+      } catch (error: unknown) {
+        failure ??= { error };
+        controller.abort(error);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  if (failure) throw failure.error;
+  return results;
+}
@@ -6,15 +6,67 @@ import type { Readable, Writable } from "node:stream";
 export type FilePath = string & { readonly __brand: "FilePath" };
 export type DirPath = string & { readonly __brand: "DirPath" };
 
+/** Where a note lands in Notion: a new database page, an existing page, or today's page in a database. */
+export type NotionMode = "database" | "append" | "daily";
+
+/** ffmpeg input formats the recorder can capture from. */
+export type CaptureBackendId = "avfoundation" | "pulse" | "alsa" | "dshow";
+
+/** Compressed formats a recording can be kept in for attaching to Notion. */
+export type AudioFormat = "opus" | "aac";
+
+/** Transcription backends selectable in preferences. */
+export type TranscriptionProviderId = "openai" | "openai-compatible" | "whisper-cpp" | "faster-whisper";
+
 /** Preferences shared across modules. Add more as you grow (Notion, etc.). */
 export type Prefs = {
   ffmpegPath?: string; // e.g. "/opt/homebrew/bin/ffmpeg"
-  micDeviceIndex?: string; // e.g. ":0" or ":1"
+  captureBackend?: CaptureBackendId | "auto";
+  micDeviceIndex?: string; // e.g. ":0" or ":1"; format depends on the capture backend
+  autoStopSilenceSec?: string; // stop recording after this much silence; blank disables
+  trimSilence?: boolean; // strip dead air before transcription
   openaiApiKey?: string;
+  transcriptionProvider?: TranscriptionProviderId;
+  transcriptionModel?: string; // blank → provider default
+  transcriptionBaseUrl?: string; // OpenAI-compatible server
+  transcriptionApiKey?: string; // OpenAI-compatible server
+  whisperBinaryPath?: string; // whisper-cli or whisper-ctranslate2
+  transcriptionLanguages?: string; // e.g. "en, fr, es"; blank → auto-detect
+  translateTo?: string; // e.g. "en"; blank → notes stay in the spoken language
+  // Output sinks; any combination may be enabled.
+  outputNotion?: boolean;
+  outputMarkdownFile?: boolean;
+  outputClipboard?: boolean;
+  reviewBeforePublish?: boolean; // stop after cleanup and open the review form
+  markdownFolder?: string;
+  markdownFilenameTemplate?: string; // e.g. "{{date}} {{title}}"
   notionToken?: string;
   notionDatabaseId?: string;
+  notionMode?: NotionMode;
+  notionPageId?: string; // target page for "append" mode
+  dailyDateProperty?: string; // date property that identifies a day's page in "daily" mode
+  notionTranscript?: boolean; // add the raw, timestamped transcript as a toggle
+  attachAudio?: AudioFormat | "off"; // keep a compressed copy and attach it to the Notion page
+  audioUploadLimitMb?: string; // larger files stay local and the page shows their path
+  extractActionItems?: boolean;
+  tasksDatabaseId?: string; // optional; each action item also becomes a row here
+  // Database property names for note metadata; blank skips the field.
+  tagsProperty?: string;
+  recordedAtProperty?: string;
+  durationProperty?: string;
+  languageProperty?: string;
+  sourceProperty?: string;
 };
 
+/** A timed stretch of a transcript, in seconds from the start of the audio. */
+export type TranscriptSegment = { start: number; end: number; text: string };
+
+/**
+ * Transcription output. `segments` is only present when the provider reports timings;
+ * `language` (an ISO 639-1 code) when it detected the language or was told it.
+ */
+export type Transcript = { text: string; segments?: TranscriptSegment[]; language?: string };
+
 /** Narrow type for the recording child process shape we use. */
 export type RecordingProcess = ChildProcessByStdio<Writable, Readable, Readable>;
 
@@ -0,0 +1,84 @@
+import { spawn } from "node:child_process";
+import { readFile, rm } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import { languageCode } from "./languages";
+import { makeTempDir } from "./path";
+import { parseSubtitles, parseTimestamp } from "./subtitles";
+import type { FilePath, Transcript, TranscriptSegment } from "./types";
+
+/** Which local CLI is installed: whisper.cpp's `whisper-cli` or faster-whisper's `whisper-ctranslate2`. */
+export type WhisperFlavor = "whisper-cpp" | "faster-whisper";
+
+export type LocalWhisperOpts = {
+  flavor: WhisperFlavor;
+  binaryPath: string; // absolute or on PATH
+  model: string; // ggml model file for whisper.cpp, model name (e.g. "small") for faster-whisper
+  language?: string; // omitted → auto-detect
+  prompt?: string;
+  signal?: AbortSignal; // kills the process
+};
+
+/** Transcribe a file with a local whisper binary, run as a child process like ffmpeg is. */
+export async function runLocalWhisper(filePath: FilePath, opts: LocalWhisperOpts): Promise<Transcript> {
+  if (!opts.binaryPath) throw new Error("No whisper binary configured");
+  if (!opts.model) throw new Error("No whisper model configured");
+
+  if (opts.flavor === "whisper-cpp") {
+    // -np: print only the transcript, one `[start --> end] text` line per segment on stdout.
+    const args = ["-m", opts.model, "-f", filePath, "-np", "-l", opts.language || "auto"];
+    if (opts.prompt) args.push("--prompt", opts.prompt);
+    const { stdout, stderr } = await run(opts.binaryPath, args, opts.signal);
+    return { ...fromSegments(parseWhisperCppOutput(stdout)), language: detectedLanguage(stderr) ?? opts.language };
+  }
+
+  // faster-whisper writes <name>.srt into the output directory.
+  const dir = makeTempDir("raycast-voice-whisper-");
+  try {
+    const args = [filePath, "--model", opts.model, "--output_format", "srt", "--output_dir", dir];
+    if (opts.language) args.push("--language", opts.language);
+    if (opts.prompt) args.push("--initial_prompt", opts.prompt);
+    const { stdout, stderr } = await run(opts.binaryPath, args, opts.signal);
+    const srt = await readFile(join(dir, `${basename(filePath, extname(filePath))}.srt`), "utf8");
+    return { ...fromSegments(parseSubtitles(srt)), language: detectedLanguage(stdout + stderr) ?? opts.language };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/** `[00:00:00.000 --> 00:00:04.200]   Hello there.` lines from whisper-cli. */
+export function parseWhisperCppOutput(stdout: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  for (const line of stdout.split(/\r?\n/)) {
+    const m = line.match(/^\s*\[([\d:.,]+)\s*-->\s*([\d:.,]+)\]\s*(.*)$/);
+    if (m && m[3].trim()) segments.push({ start: parseTimestamp(m[1]), end: parseTimestamp(m[2]), text: m[3].trim() });
+  }
+  return segments;
+}
+
+/**
+ * The language a whisper CLI auto-detected, from its log: whisper.cpp prints
+ * `auto-detected language: fr (p = 0.97)`, faster-whisper `Detected language 'French' with probability 0.97`.
+ */
+export function detectedLanguage(output: string): string | undefined {
+  const m = output.match(/auto-detected language:\s*([\w-]+)/) ?? output.match(/Detected language '([^']+)'/);
+  return languageCode(m?.[1]);
+}
+
+function fromSegments(segments: TranscriptSegment[]): Transcript {
+  return { text: segments.map((s) => s.text).join(" "), segments: segments.length ? segments : undefined };
+}
+
+function run(bin: string, args: string[], signal?: AbortSignal): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(bin, args, { stdio: ["ignore", "pipe", "pipe"], signal });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (d: Buffer) => (stdout += d.toString()));
+    child.stderr.on("data", (d: Buffer) => (stderr += d.toString()));
+    child.once("error", reject);
+    child.once("close", (code) => {
+      if (code === 0) resolve({ stdout, stderr });
+      else reject(new Error(`${basename(bin)} exited with code ${code}: ${stderr.trim().split("\n").pop() ?? ""}`));
+    });
+  });
+}
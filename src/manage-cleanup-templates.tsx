@@ -0,0 +1,177 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Form,
+  Icon,
+  Keyboard,
+  List,
+  Toast,
+  confirmAlert,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import { CleanupTemplate, deleteUserTemplate, listTemplates, saveUserTemplate } from "./lib/templates";
+
+export default function Command() {
+  const [templates, setTemplates] = useState<CleanupTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    setTemplates(await listTemplates());
+  }, []);
+
+  useEffect(() => {
+    reload().finally(() => setIsLoading(false));
+  }, [reload]);
+
+  const remove = async (template: CleanupTemplate) => {
+    const confirmed = await confirmAlert({
+      title: `Delete “${template.name}”?`,
+      message: "Notes cleaned with it keep their text; re-cleaning them falls back to Standard Note.",
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    await deleteUserTemplate(template.id);
+    await reload();
+  };
+
+  const createAction = (
+    <Action.Push
+      title="Create Template"
+      icon={Icon.Plus}
+      shortcut={Keyboard.Shortcut.Common.New}
+      target={<TemplateForm onSaved={reload} />}
+    />
+  );
+
+  const section = (title: string, items: CleanupTemplate[]) => (
+    <List.Section title={title}>
+      {items.map((t) => (
+        <List.Item
+          key={t.id}
+          icon={t.builtIn ? Icon.Lock : Icon.Document}
+          title={t.name}
+          accessories={[{ text: t.model ?? "gpt-4.1-mini" }, { text: `t=${t.temperature ?? 0.2}` }]}
+          detail={<List.Item.Detail markdown={"```\n" + t.prompt.trim() + "\n```"} />}
+          actions={
+            <ActionPanel>
+              {t.builtIn ? null : (
+                <Action.Push
+                  title="Edit Template"
+                  icon={Icon.Pencil}
+                  target={<TemplateForm template={t} onSaved={reload} />}
+                />
+              )}
+              <Action.Push
+                title="Duplicate as New Template"
+                icon={Icon.CopyClipboard}
+                shortcut={Keyboard.Shortcut.Common.Duplicate}
+                target={
+                  <TemplateForm
+                    template={{ ...t, id: "", name: `${t.name} (Copy)`, builtIn: false }}
+                    onSaved={reload}
+                  />
+                }
+              />
+              {createAction}
+              {t.builtIn ? null : (
+                <Action
+                  title="Delete Template"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  shortcut={Keyboard.Shortcut.Common.Remove}
+                  onAction={() => remove(t)}
+                />
+              )}
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List.Section>
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      isShowingDetail
+      actions={<ActionPanel>{createAction}</ActionPanel>}
+      searchBarPlaceholder="Search cleanup modes"
+    >
+      {section(
+        "Built-In Modes",
+        templates.filter((t) => t.builtIn),
+      )}
+      {section(
+        "Your Templates",
+        templates.filter((t) => !t.builtIn),
+      )}
+    </List>
+  );
+}
+
+type TemplateValues = { name: string; prompt: string; model: string; temperature: string };
+
+function TemplateForm({ template, onSaved }: { template?: CleanupTemplate; onSaved: () => Promise<void> }) {
+  const { pop } = useNavigation();
+  const [errors, setErrors] = useState<Partial<Record<keyof TemplateValues, string>>>({});
+
+  const onSubmit = async (values: TemplateValues) => {
+    const temperature = values.temperature.trim() ? Number(values.temperature) : undefined;
+    const next: typeof errors = {};
+    if (!values.name.trim()) next.name = "Required";
+    if (!values.prompt.trim()) next.prompt = "Required";
+    if (temperature != null && !(temperature >= 0 && temperature <= 2)) next.temperature = "Between 0 and 2";
+    setErrors(next);
+    if (Object.keys(next).length) return;
+
+    await saveUserTemplate({
+      id: template?.id || undefined,
+      name: values.name.trim(),
+      prompt: values.prompt.trim(),
+      model: values.model.trim() || undefined,
+      temperature,
+    });
+    await showToast({ style: Toast.Style.Success, title: "Template saved" });
+    await onSaved();
+    pop();
+  };
+
+  return (
+    <Form
+      navigationTitle={template?.id ? `Edit “${template.name}”` : "New Cleanup Template"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Template" icon={Icon.Check} onSubmit={onSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        defaultValue={template?.name}
+        error={errors.name}
+        onChange={() => setErrors((e) => ({ ...e, name: undefined }))}
+      />
+      <Form.TextArea
+        id="prompt"
+        title="Prompt"
+        defaultValue={template?.prompt.trim()}
+        placeholder="Turn this transcription from {{date}} into…"
+        info="Placeholders: {{date}}, {{language}}, {{transcript}}. Without {{transcript}} the prompt is the system message and the transcript is sent after it."
+        error={errors.prompt}
+        onChange={() => setErrors((e) => ({ ...e, prompt: undefined }))}
+      />
+      <Form.TextField id="model" title="Model" placeholder="gpt-4.1-mini" defaultValue={template?.model} />
+      <Form.TextField
+        id="temperature"
+        title="Temperature"
+        placeholder="0.2"
+        defaultValue={template?.temperature != null ? String(template.temperature) : ""}
+        error={errors.temperature}
+        onChange={() => setErrors((e) => ({ ...e, temperature: undefined }))}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,147 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Form,
+  Icon,
+  Keyboard,
+  List,
+  Toast,
+  confirmAlert,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import { GlossaryTerm, deleteGlossaryTerm, listGlossary, saveGlossaryTerm } from "./lib/glossary";
+
+export default function Command() {
+  const [terms, setTerms] = useState<GlossaryTerm[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    setTerms(await listGlossary());
+  }, []);
+
+  useEffect(() => {
+    reload().finally(() => setIsLoading(false));
+  }, [reload]);
+
+  const remove = async (term: GlossaryTerm) => {
+    const confirmed = await confirmAlert({
+      title: `Delete “${term.term}”?`,
+      message: "Notes already published keep their spelling.",
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    await deleteGlossaryTerm(term.id);
+    await reload();
+  };
+
+  const createAction = (
+    <Action.Push
+      title="Add Term"
+      icon={Icon.Plus}
+      shortcut={Keyboard.Shortcut.Common.New}
+      target={<TermForm onSaved={reload} />}
+    />
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      actions={<ActionPanel>{createAction}</ActionPanel>}
+      searchBarPlaceholder="Search terms and misspellings"
+    >
+      <List.EmptyView
+        icon={Icon.Book}
+        title="No glossary terms yet"
+        description="Add names and jargon the transcription gets wrong, with the ways it misspells them."
+      />
+      {terms.map((t) => (
+        <List.Item
+          key={t.id}
+          icon={Icon.Book}
+          title={t.term}
+          subtitle={t.aliases?.length ? `replaces ${t.aliases.join(", ")}` : undefined}
+          keywords={t.aliases}
+          accessories={t.caseSensitive ? [{ tag: "Case-Sensitive" }] : []}
+          actions={
+            <ActionPanel>
+              <Action.Push title="Edit Term" icon={Icon.Pencil} target={<TermForm term={t} onSaved={reload} />} />
+              {createAction}
+              <Action
+                title="Delete Term"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                shortcut={Keyboard.Shortcut.Common.Remove}
+                onAction={() => remove(t)}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
+
+type TermValues = { term: string; aliases: string; caseSensitive: boolean };
+
+function TermForm({ term, onSaved }: { term?: GlossaryTerm; onSaved: () => Promise<void> }) {
+  const { pop } = useNavigation();
+  const [termError, setTermError] = useState<string>();
+
+  const onSubmit = async (values: TermValues) => {
+    if (!values.term.trim()) {
+      setTermError("Required");
+      return;
+    }
+    const aliases = values.aliases
+      .split(/[\n,]/)
+      .map((a) => a.trim())
+      .filter(Boolean);
+
+    await saveGlossaryTerm({
+      id: term?.id,
+      term: values.term.trim(),
+      aliases: aliases.length ? [...new Set(aliases)] : undefined,
+      caseSensitive: values.caseSensitive || undefined,
+    });
+    await showToast({ style: Toast.Style.Success, title: "Term saved" });
+    await onSaved();
+    pop();
+  };
+
+  return (
+    <Form
+      navigationTitle={term ? `Edit “${term.term}”` : "New Glossary Term"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Term" icon={Icon.Check} onSubmit={onSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="term"
+        title="Term"
+        placeholder="Kubernetes"
+        defaultValue={term?.term}
+        info="The correct spelling. It's suggested to the transcriber and to cleanup."
+        error={termError}
+        onChange={() => setTermError(undefined)}
+      />
+      <Form.TextArea
+        id="aliases"
+        title="Misspellings"
+        placeholder={"cooper netties\nkubernetis"}
+        defaultValue={term?.aliases?.join("\n")}
+        info="One per line. After cleanup, each whole-word match is replaced with the term."
+      />
+      <Form.Checkbox
+        id="caseSensitive"
+        label="Match misspellings case-sensitively"
+        defaultValue={term?.caseSensitive ?? false}
+        info="Otherwise any casing matches, and the term's own casing is corrected too."
+      />
+    </Form>
+  );
+}
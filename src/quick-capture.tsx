@@ -0,0 +1,134 @@
+import {
+  Color,
+  Icon,
+  LaunchType,
+  MenuBarExtra,
+  Toast,
+  launchCommand,
+  open,
+  openExtensionPreferences,
+  showHUD,
+  showToast,
+} from "@raycast/api";
+import { useEffect, useState } from "react";
+import { PIPELINE_STAGES, PipelineStatus } from "./lib/pipeline";
+import { usePrefs } from "./lib/prefs";
+import { QuickCaptureState, processCaptures, recoverCapture, toggleCapture } from "./lib/quick-capture";
+import { formatDuration } from "./services/notion-properties";
+
+const STAGE_LABELS = { transcribe: "Transcribing", clean: "Cleaning", publish: "Publishing" } as const;
+
+/**
+ * Menu-bar recorder. ffmpeg runs detached and the state lives in LocalStorage, so this command can
+ * unload between refreshes; each refresh picks up where the last one left off and processes queued notes.
+ */
+export default function Command() {
+  const prefs = usePrefs();
+  const [state, setState] = useState<QuickCaptureState>();
+  const [stages, setStages] = useState<PipelineStatus>();
+  const [isLoading, setIsLoading] = useState(true);
+
+  const processQueue = () => processCaptures(prefs, { onState: setState, onStatus: setStages });
+
+  useEffect(() => {
+    recoverCapture()
+      .then(async (recovered) => {
+        setState(recovered);
+        await processQueue();
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const toggle = async () => {
+    setIsLoading(true);
+    try {
+      const { started } = await toggleCapture(prefs);
+      if (started) {
+        await showHUD("Recording… Use Stop Recording to finish");
+        return;
+      }
+      setStages(undefined);
+      await processQueue();
+    } catch (e: unknown) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Quick capture failed",
+        message: e instanceof Error ? e.message : String(e),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const recording = state?.recording;
+  const processing = !!state?.queue.length;
+  const running = stages && PIPELINE_STAGES.find((s) => stages[s] === "running");
+  const last = state?.last;
+
+  return (
+    <MenuBarExtra
+      icon={recording ? { source: Icon.Microphone, tintColor: Color.Red } : Icon.Microphone}
+      title={recording ? elapsed(recording.startedAt) : processing ? "…" : undefined}
+      tooltip="FlowNote Quick Capture"
+      isLoading={isLoading}
+    >
+      {recording ? (
+        <MenuBarExtra.Item title="Stop Recording" icon={Icon.Stop} onAction={toggle} />
+      ) : (
+        <MenuBarExtra.Item title="Start Recording" icon={Icon.Microphone} onAction={toggle} />
+      )}
+      {recording ? (
+        <MenuBarExtra.Item
+          title={`Recording for ${elapsed(recording.startedAt)}`}
+          subtitle={recording.deviceName ?? recording.device}
+        />
+      ) : null}
+      {processing ? (
+        <MenuBarExtra.Section title="Processing">
+          <MenuBarExtra.Item
+            title={running ? `${STAGE_LABELS[running]}…` : "Waiting…"}
+            subtitle={state.queue.length > 1 ? `${state.queue.length} notes` : undefined}
+          />
+        </MenuBarExtra.Section>
+      ) : null}
+      {last ? (
+        <MenuBarExtra.Section title="Last Note">
+          <MenuBarExtra.Item
+            title={last.title}
+            subtitle={last.status === "failed" ? last.error : last.status === "review" ? "Ready for review" : undefined}
+            icon={
+              last.status === "published"
+                ? { source: Icon.CheckCircle, tintColor: Color.Green }
+                : last.status === "review"
+                  ? { source: Icon.Pencil, tintColor: Color.Blue }
+                  : { source: Icon.XMarkCircle, tintColor: Color.Red }
+            }
+            onAction={() =>
+              last.url && last.status === "published"
+                ? open(last.url)
+                : launchCommand({ name: "retry-pending-notes", type: LaunchType.UserInitiated })
+            }
+          />
+        </MenuBarExtra.Section>
+      ) : null}
+      <MenuBarExtra.Section>
+        <MenuBarExtra.Item
+          title="Open Recorder"
+          icon={Icon.Waveform}
+          onAction={() => launchCommand({ name: "voice-note---record", type: LaunchType.UserInitiated })}
+        />
+        <MenuBarExtra.Item
+          title="Voice Note History"
+          icon={Icon.Clock}
+          onAction={() => launchCommand({ name: "voice-note-history", type: LaunchType.UserInitiated })}
+        />
+        <MenuBarExtra.Item title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
+
+/** `m:ss` since `startedAt`. The menu bar refreshes every 10 seconds, and whenever it is opened. */
+function elapsed(startedAt: string): string {
+  return formatDuration(Math.max(0, Date.now() - Date.parse(startedAt)) / 1000);
+}
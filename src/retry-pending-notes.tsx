@@ -0,0 +1,109 @@
+import { Action, ActionPanel, Alert, Color, Icon, Keyboard, List, Toast, confirmAlert, showToast } from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import { ReviewForm } from "./components/review-form";
+import { noteTitle } from "./lib/history";
+import { OutboxNote, listPendingNotes, removeNote } from "./lib/outbox";
+import { processNote } from "./lib/pipeline";
+import { usePrefs } from "./lib/prefs";
+
+const STAGE_LABEL: Record<OutboxNote["stage"], string> = {
+  recorded: "Waiting for transcription",
+  transcribed: "Waiting for cleanup",
+  cleaned: "Waiting to publish",
+  published: "Published",
+};
+
+export default function Command() {
+  const prefs = usePrefs();
+  const [notes, setNotes] = useState<OutboxNote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // This session's pipeline log per note, shown in the detail of notes that are still pending.
+  const [logs, setLogs] = useState<Record<string, string[]>>({});
+
+  const logTo = (id: string) => (line: string) => setLogs((l) => ({ ...l, [id]: [...(l[id] ?? []), line] }));
+
+  const reload = useCallback(async () => {
+    setNotes(await listPendingNotes());
+  }, []);
+
+  useEffect(() => {
+    reload().finally(() => setIsLoading(false));
+  }, [reload]);
+
+  const retry = async (targets: OutboxNote[]) => {
+    setIsLoading(true);
+    let published = 0;
+    for (const note of targets) {
+      // Retrying one note is like publishing it by hand; a batch would just leave the last one on the clipboard.
+      const result = await processNote(note, { prefs, log: logTo(note.id), unattended: targets.length > 1 });
+      if (result.stage === "published") published++;
+    }
+    await reload();
+    setIsLoading(false);
+
+    const failed = targets.length - published;
+    await showToast({
+      style: failed ? Toast.Style.Failure : Toast.Style.Success,
+      title: `Published ${published} of ${targets.length} note${targets.length === 1 ? "" : "s"}`,
+      message: failed ? `${failed} still pending` : undefined,
+    });
+  };
+
+  const remove = async (note: OutboxNote) => {
+    const confirmed = await confirmAlert({
+      title: "Delete pending note?",
+      message: "The recording and any transcript saved for it will be removed.",
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    await removeNote(note.id);
+    await reload();
+  };
+
+  return (
+    <List isLoading={isLoading} isShowingDetail={notes.length > 0}>
+      <List.EmptyView icon={Icon.CheckCircle} title="No pending notes" description="Every note has been published." />
+      {notes.map((note) => (
+        <List.Item
+          key={note.id}
+          icon={note.lastError ? { source: Icon.ExclamationMark, tintColor: Color.Red } : Icon.Clock}
+          title={noteTitle(note)}
+          subtitle={STAGE_LABEL[note.stage]}
+          detail={<List.Item.Detail markdown={noteDetail(note, logs[note.id])} />}
+          actions={
+            <ActionPanel>
+              {note.stage === "cleaned" ? (
+                <Action.Push
+                  title="Review and Publish"
+                  icon={Icon.Pencil}
+                  target={<ReviewForm note={note} prefs={prefs} log={logTo(note.id)} onDone={reload} />}
+                />
+              ) : null}
+              <Action title="Retry Note" icon={Icon.ArrowClockwise} onAction={() => retry([note])} />
+              <Action title="Retry All Pending Notes" icon={Icon.ArrowClockwise} onAction={() => retry(notes)} />
+              <Action
+                title="Delete Note"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                shortcut={Keyboard.Shortcut.Common.Remove}
+                onAction={() => remove(note)}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
+
+function noteDetail(note: OutboxNote, log: string[] = []): string {
+  const parts = [
+    `**Recorded:** ${new Date(note.createdAt).toLocaleString()}`,
+    `**Stage:** ${STAGE_LABEL[note.stage]} · ${note.attempts} attempt${note.attempts === 1 ? "" : "s"}`,
+    note.lastError ? `**Last error:** ${note.lastError}` : "",
+    note.markdown ? `---\n\n${note.markdown}` : "",
+    !note.markdown && note.transcript ? `---\n\n${note.transcript}` : "",
+    log.length ? ["## Log", "```text", ...log.slice(-30), "```"].join("\n") : "",
+  ];
+  return parts.filter(Boolean).join("\n\n");
+}
@@ -0,0 +1,98 @@
+import type { Client } from "@notionhq/client";
+import type { BlockObjectRequest } from "@notionhq/client/build/src/api-endpoints";
+import { promises as fsp } from "node:fs";
+import { basename, extname } from "node:path";
+import type { FilePath } from "../lib/types";
+import { notionClient } from "./notion-client";
+import { textToRichText } from "./notion-markdown";
+
+/** Notion's cap on a single-part upload; workspaces on the free plan are limited to 5 MB. */
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+const CONTENT_TYPES: Record<string, string> = { ".ogg": "audio/ogg", ".m4a": "audio/mp4" };
+
+/**
+ * An audio block for the recording, uploaded through Notion's file upload API. Files over
+ * `maxBytes`, or that Notion refuses, are kept locally and get a paragraph with their path instead.
+ * `uploadId` is an earlier upload of the same file; it's reused while Notion still has it.
+ */
+export async function audioAttachmentBlocks(params: {
+  notionToken: string;
+  filePath: FilePath;
+  maxBytes: number;
+  uploadId?: string;
+  /** Called once a new upload has been sent, with its ID. */
+  onUploaded?: (uploadId: string) => Promise<void>;
+}): Promise<{ blocks: BlockObjectRequest[]; uploaded: boolean; detail: string }> {
+  const { notionToken, filePath, uploadId, onUploaded } = params;
+  const maxBytes = Math.min(params.maxBytes, MAX_UPLOAD_BYTES);
+  const data = await fsp.readFile(filePath);
+  if (data.length > maxBytes) {
+    return {
+      blocks: [localAudioBlock(filePath)],
+      uploaded: false,
+      detail: `Audio is ${megabytes(data.length)}, over the ${megabytes(maxBytes)} upload limit; kept at ${filePath}`,
+    };
+  }
+
+  const filename = basename(filePath);
+  const contentType = CONTENT_TYPES[extname(filePath).toLowerCase()] ?? "application/octet-stream";
+  const notion = notionClient(notionToken);
+  if (uploadId && (await isUploadUsable(notion, uploadId))) {
+    return {
+      blocks: [audioBlock(uploadId)],
+      uploaded: true,
+      detail: `Attached audio (${megabytes(data.length)}, uploaded earlier)`,
+    };
+  }
+
+  try {
+    const upload = await notion.fileUploads.create({ mode: "single_part", filename, content_type: contentType });
+    await notion.fileUploads.send({
+      file_upload_id: upload.id,
+      file: { filename, data: new Blob([data], { type: contentType }) },
+    });
+    await onUploaded?.(upload.id).catch(() => undefined);
+    return {
+      blocks: [audioBlock(upload.id)],
+      uploaded: true,
+      detail: `Attached audio (${megabytes(data.length)})`,
+    };
+  } catch (e: unknown) {
+    return {
+      blocks: [localAudioBlock(filePath)],
+      uploaded: false,
+      detail: `Audio upload failed, kept at ${filePath}: ${e instanceof Error ? e.message : String(e)}`,
+    };
+  }
+}
+
+/** Whether an earlier upload finished and hasn't expired (unattached uploads only last an hour). */
+async function isUploadUsable(notion: Client, uploadId: string): Promise<boolean> {
+  try {
+    const upload = await notion.fileUploads.retrieve({ file_upload_id: uploadId });
+    return upload.status === "uploaded" && (!upload.expiry_time || Date.parse(upload.expiry_time) > Date.now());
+  } catch {
+    return false;
+  }
+}
+
+function audioBlock(uploadId: string): BlockObjectRequest {
+  return { type: "audio", audio: { type: "file_upload", file_upload: { id: uploadId } } };
+}
+
+function localAudioBlock(filePath: FilePath): BlockObjectRequest {
+  return {
+    type: "paragraph",
+    paragraph: {
+      rich_text: [
+        ...textToRichText("Audio (saved locally): "),
+        { type: "text", text: { content: filePath }, annotations: { code: true } },
+      ],
+    },
+  };
+}
+
+function megabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
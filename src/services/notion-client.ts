@@ -0,0 +1,29 @@
+import { Client, ClientErrorCode, isNotionClientError } from "@notionhq/client";
+import { ApiError, errorKind, fetchWithRetry } from "../lib/http";
+
+/** Endpoints Notion takes as POST that only read. */
+const READ_ONLY_POST = /\/v1\/(databases\/[^/]+\/query|search)$/;
+
+/**
+ * A Notion client whose requests go through the shared retrying fetch. Reads are retried
+ * after any transient failure; writes only after 429s, so a page is never created twice.
+ */
+export function notionClient(auth: string): Client {
+  return new Client({
+    auth,
+    // Each attempt has its own timeout; this one only has to outlast the retries.
+    timeoutMs: 300_000,
+    fetch: (url, init = {}) => {
+      const method = (init.method ?? "GET").toUpperCase();
+      const idempotent = method === "GET" || (method === "POST" && READ_ONLY_POST.test(new URL(url).pathname));
+      return fetchWithRetry(url, init, { service: "Notion", timeoutMs: 30_000, idempotent });
+    },
+  });
+}
+
+/** Turn the Notion client's own errors into `ApiError`s; anything else is returned as is. */
+export function notionError(e: unknown): unknown {
+  if (!isNotionClientError(e)) return e;
+  if (e.code === ClientErrorCode.RequestTimeout) return new ApiError("Notion", "timeout", e.message);
+  return new ApiError("Notion", errorKind(e.status, e.body), e.message, e.status);
+}
@@ -0,0 +1,372 @@
+import type { BlockObjectRequest } from "@notionhq/client/build/src/api-endpoints";
+import { marked } from "marked";
+import type { Token, Tokens } from "marked";
+
+/** Notion's rich_text item shape (not exported by the SDK, so derive it from a block that uses it). */
+export type RichText = Extract<BlockObjectRequest, { paragraph: unknown }>["paragraph"]["rich_text"][number];
+type NestedBlocks = NonNullable<Extract<BlockObjectRequest, { paragraph: unknown }>["paragraph"]["children"]>;
+type Annotations = { bold?: boolean; italic?: boolean; strikethrough?: boolean; code?: boolean };
+type CodeLanguage = Extract<BlockObjectRequest, { code: unknown }>["code"]["language"];
+type CalloutPayload = Extract<BlockObjectRequest, { callout: unknown }>["callout"];
+
+/** Our own block tree before Notion's nesting limits are applied. */
+type Node = { block: BlockObjectRequest; children: Node[] };
+
+/** Max characters in a single rich_text item. */
+export const RICH_TEXT_LIMIT = 2000;
+/** Max elements in any array in a request (children, rich_text, table rows). */
+export const ARRAY_LIMIT = 100;
+/** Notion accepts at most two levels of nested children in one request. */
+const MAX_DEPTH = 2;
+
+const CALLOUTS: Record<string, Required<Pick<CalloutPayload, "icon" | "color">>> = {
+  NOTE: { icon: { type: "emoji", emoji: "ℹ️" }, color: "blue_background" },
+  TIP: { icon: { type: "emoji", emoji: "💡" }, color: "green_background" },
+  IMPORTANT: { icon: { type: "emoji", emoji: "❗" }, color: "purple_background" },
+  WARNING: { icon: { type: "emoji", emoji: "⚠️" }, color: "yellow_background" },
+  CAUTION: { icon: { type: "emoji", emoji: "🛑" }, color: "red_background" },
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: "javascript",
+  jsx: "javascript",
+  ts: "typescript",
+  tsx: "typescript",
+  py: "python",
+  rb: "ruby",
+  sh: "shell",
+  zsh: "shell",
+  console: "shell",
+  yml: "yaml",
+  md: "markdown",
+  text: "plain text",
+  txt: "plain text",
+  plaintext: "plain text",
+  dockerfile: "docker",
+  cs: "c#",
+  csharp: "c#",
+  cpp: "c++",
+  objc: "objective-c",
+  kt: "kotlin",
+  rs: "rust",
+  golang: "go",
+  ps1: "powershell",
+  tex: "latex",
+  vb: "visual basic",
+  vbnet: "vb.net",
+  llvm: "llvm ir",
+};
+
+// Single-word languages Notion accepts as-is; multi-word ones are only reachable through aliases.
+const LANGUAGES = new Set(
+  `abap abc agda arduino assembly bash basic bnf c c# c++ clojure coffeescript coq css dart dhall diff
+   docker ebnf elixir elm erlang f# flow fortran gherkin glsl go graphql groovy haskell hcl html idris
+   java javascript json julia kotlin latex less lisp livescript lua makefile markdown markup matlab
+   mathematica mermaid nix objective-c ocaml pascal perl php powershell prolog protobuf purescript
+   python r racket reason ruby rust sass scala scheme scss shell smalltalk solidity sql swift toml
+   typescript verilog vhdl webassembly xml yaml`.split(/\s+/),
+);
+
+/**
+ * Markdown → Notion blocks: headings, paragraphs with inline formatting and links,
+ * bulleted/numbered/task lists (nested), quotes and GitHub-style callouts, code,
+ * dividers, tables and images. Long text is split to fit Notion's rich_text limit;
+ * nesting deeper than Notion accepts in one request is flattened into the deepest allowed level.
+ * Pass `depth` 1 for blocks that will be placed inside another block, such as a toggle.
+ */
+export function markdownToNotionBlocks(markdown: string, depth = 0): BlockObjectRequest[] {
+  const tokens = marked.lexer(markdown || "");
+  return toBlocks(tokens).map((node) => finalize(node, depth));
+}
+
+/** Concatenate the plain text of a rich_text array. */
+export function plainText(richText: RichText[]): string {
+  return richText.map((r) => ("text" in r && r.text ? r.text.content : "")).join("");
+}
+
+/** Build rich_text items for a plain string, splitting at the per-item character limit. */
+export function textToRichText(content: string, annotations?: Annotations, url?: string): RichText[] {
+  const items: RichText[] = [];
+  for (let i = 0; i < content.length; i += RICH_TEXT_LIMIT) {
+    items.push(richText(content.slice(i, i + RICH_TEXT_LIMIT), annotations, url));
+  }
+  return items;
+}
+
+function toBlocks(tokens: Token[]): Node[] {
+  const nodes: Node[] = [];
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case "heading": {
+        const t = token as Tokens.Heading;
+        const rich_text = inline(t.tokens);
+        if (t.depth === 1) nodes.push(leaf({ type: "heading_1", heading_1: { rich_text } }));
+        else if (t.depth === 2) nodes.push(leaf({ type: "heading_2", heading_2: { rich_text } }));
+        else nodes.push(leaf({ type: "heading_3", heading_3: { rich_text } }));
+        break;
+      }
+
+      case "paragraph":
+      case "text": {
+        const t = token as Tokens.Paragraph | Tokens.Text;
+        const inner = t.tokens ?? [{ type: "text", raw: t.text, text: t.text } as Tokens.Text];
+        const image = inner.length === 1 && inner[0].type === "image" ? (inner[0] as Tokens.Image) : null;
+        if (image && isWebUrl(image.href)) {
+          nodes.push(
+            leaf({
+              type: "image",
+              image: { type: "external", external: { url: image.href }, caption: textToRichText(image.text) },
+            }),
+          );
+        } else {
+          nodes.push(...paragraphs(inline(inner)));
+        }
+        break;
+      }
+
+      case "code": {
+        const t = token as Tokens.Code;
+        nodes.push(
+          leaf({
+            type: "code",
+            code: { rich_text: textToRichText(String(t.text || "")), language: codeLanguage(t.lang) },
+          }),
+        );
+        break;
+      }
+
+      case "list": {
+        const list = token as Tokens.List;
+        for (const item of list.items || []) nodes.push(listItem(item, list.ordered));
+        break;
+      }
+
+      case "blockquote":
+        nodes.push(quote(token as Tokens.Blockquote));
+        break;
+
+      case "hr":
+        nodes.push(leaf({ type: "divider", divider: {} }));
+        break;
+
+      case "table":
+        nodes.push(...table(token as Tokens.Table));
+        break;
+
+      default:
+        // space, html, link definitions: nothing to render
+        break;
+    }
+  }
+
+  return nodes;
+}
+
+function listItem(item: Tokens.ListItem, ordered: boolean): Node {
+  // The item's own text is its first text/paragraph token; anything after it nests underneath.
+  const [first, ...rest] = item.tokens;
+  const hasText = first && (first.type === "text" || first.type === "paragraph");
+  const rich_text = hasText ? inline((first as Tokens.Text).tokens ?? [first]) : [];
+  const children = toBlocks(hasText ? rest : item.tokens);
+
+  const head = rich_text.slice(0, ARRAY_LIMIT);
+  const overflow = paragraphs(rich_text.slice(ARRAY_LIMIT));
+  let block: BlockObjectRequest;
+  if (item.task) block = { type: "to_do", to_do: { rich_text: head, checked: !!item.checked } };
+  else if (ordered) block = { type: "numbered_list_item", numbered_list_item: { rich_text: head } };
+  else block = { type: "bulleted_list_item", bulleted_list_item: { rich_text: head } };
+  return { block, children: [...overflow, ...children] };
+}
+
+function quote(token: Tokens.Blockquote): Node {
+  const [first, ...rest] = token.tokens;
+  let rich_text: RichText[] = [];
+  let body = token.tokens;
+  let callout: (typeof CALLOUTS)[string] | undefined;
+
+  if (first?.type === "paragraph") {
+    const inner = [...((first as Tokens.Paragraph).tokens ?? [])];
+    // GitHub alert syntax: "> [!NOTE]" on the first line turns the quote into a callout.
+    const lead = inner[0];
+    const marker = lead?.type === "text" ? (lead as Tokens.Text).text.match(/^\[!(\w+)\]\s*/) : null;
+    if (marker && CALLOUTS[marker[1].toUpperCase()]) {
+      callout = CALLOUTS[marker[1].toUpperCase()];
+      const text = (lead as Tokens.Text).text.slice(marker[0].length);
+      inner[0] = { type: "text", raw: text, text } as Tokens.Text;
+    }
+    rich_text = inline(inner);
+    body = rest;
+  }
+
+  const head = rich_text.slice(0, ARRAY_LIMIT);
+  const children = [...paragraphs(rich_text.slice(ARRAY_LIMIT)), ...toBlocks(body)];
+  if (callout) {
+    return {
+      block: {
+        type: "callout",
+        callout: { rich_text: head, ...callout },
+      },
+      children,
+    };
+  }
+  return { block: { type: "quote", quote: { rich_text: head } }, children };
+}
+
+/** Tables with more rows than one request allows are split, repeating the header row. */
+function table(token: Tokens.Table): Node[] {
+  const width = token.header.length;
+  const row = (cells: Tokens.TableCell[]): Node =>
+    leaf({
+      type: "table_row",
+      table_row: {
+        cells: Array.from({ length: width }, (_, i) => inline(cells[i]?.tokens ?? []).slice(0, ARRAY_LIMIT)),
+      },
+    });
+
+  const header = row(token.header);
+  const tables: Node[] = [];
+  const perTable = ARRAY_LIMIT - 1;
+  for (let i = 0; i === 0 || i < token.rows.length; i += perTable) {
+    const rows = token.rows.slice(i, i + perTable).map(row);
+    tables.push({
+      block: {
+        type: "table",
+        table: { table_width: width, has_column_header: true, has_row_header: false, children: [] },
+      },
+      children: [header, ...rows],
+    });
+  }
+  return tables;
+}
+
+/** One or more paragraph blocks, split so no block carries more rich_text items than allowed. */
+function paragraphs(rich_text: RichText[]): Node[] {
+  if (!rich_text.length) return [];
+  const nodes: Node[] = [];
+  for (let i = 0; i < rich_text.length; i += ARRAY_LIMIT) {
+    nodes.push(leaf({ type: "paragraph", paragraph: { rich_text: rich_text.slice(i, i + ARRAY_LIMIT) } }));
+  }
+  return nodes;
+}
+
+function inline(tokens: Token[] | undefined, annotations: Annotations = {}, url?: string): RichText[] {
+  const out: RichText[] = [];
+  const push = (content: string, ann = annotations) => {
+    if (!content) return;
+    const prev = out[out.length - 1];
+    // Merge with the previous run when formatting and link match, to stay under the item limit.
+    if (prev && "text" in prev && sameRun(prev, ann, url)) {
+      prev.text.content += content;
+    } else {
+      out.push(richText(content, ann, url));
+    }
+  };
+
+  for (const token of tokens ?? []) {
+    switch (token.type) {
+      case "strong":
+        out.push(...inline((token as Tokens.Strong).tokens, { ...annotations, bold: true }, url));
+        break;
+      case "em":
+        out.push(...inline((token as Tokens.Em).tokens, { ...annotations, italic: true }, url));
+        break;
+      case "del":
+        out.push(...inline((token as Tokens.Del).tokens, { ...annotations, strikethrough: true }, url));
+        break;
+      case "codespan":
+        push((token as Tokens.Codespan).text, { ...annotations, code: true });
+        break;
+      case "link": {
+        const t = token as Tokens.Link;
+        out.push(...inline(t.tokens, annotations, isWebUrl(t.href) ? t.href : url));
+        break;
+      }
+      case "image": {
+        const t = token as Tokens.Image;
+        out.push(...(isWebUrl(t.href) ? [richText(t.text || t.href, annotations, t.href)] : []));
+        break;
+      }
+      case "br":
+        push("\n");
+        break;
+      case "text": {
+        const t = token as Tokens.Text;
+        if (t.tokens?.length) out.push(...inline(t.tokens, annotations, url));
+        else push(t.text);
+        break;
+      }
+      default:
+        // escape, html and anything unknown: keep the visible text
+        push("text" in token ? String(token.text) : token.raw);
+        break;
+    }
+  }
+
+  // Merging may have produced runs over the character limit.
+  return out.flatMap((r) =>
+    "text" in r && r.text.content.length > RICH_TEXT_LIMIT
+      ? textToRichText(r.text.content, r.annotations, r.text.link?.url)
+      : [r],
+  );
+}
+
+function richText(content: string, annotations: Annotations = {}, url?: string): RichText {
+  const ann = Object.fromEntries(Object.entries(annotations).filter(([, v]) => v));
+  return {
+    type: "text",
+    text: { content, link: url ? { url } : null },
+    ...(Object.keys(ann).length ? { annotations: ann } : {}),
+  };
+}
+
+function sameRun(r: RichText, annotations: Annotations, url?: string): boolean {
+  if (!("text" in r) || (r.text.link?.url ?? undefined) !== url) return false;
+  const a = r.annotations ?? {};
+  return (
+    !!a.bold === !!annotations.bold &&
+    !!a.italic === !!annotations.italic &&
+    !!a.strikethrough === !!annotations.strikethrough &&
+    !!a.code === !!annotations.code
+  );
+}
+
+function codeLanguage(lang?: string): CodeLanguage {
+  const key = (lang || "").trim().split(/\s+/)[0].toLowerCase();
+  const alias = LANGUAGE_ALIASES[key];
+  return (alias ?? (LANGUAGES.has(key) ? key : "plain text")) as CodeLanguage;
+}
+
+function isWebUrl(href: string | undefined): href is string {
+  return !!href && /^(https?:\/\/|mailto:)/i.test(href);
+}
+
+function leaf(block: BlockObjectRequest): Node {
+  return { block, children: [] };
+}
+
+/**
+ * Attach children to the block's payload. Past the nesting limit, descendants
+ * are flattened so they still appear, just one level shallower than written.
+ */
+function finalize(node: Node, depth: number): BlockObjectRequest {
+  const { block, children } = node;
+  if (!children.length) return block;
+
+  const kids = depth + 1 >= MAX_DEPTH ? children.flatMap(flatten) : children;
+  const type = block.type as string;
+  const payload = (block as unknown as Record<string, Record<string, unknown>>)[type];
+  payload.children = kids.map((child) => finalize(child, depth + 1)) as NestedBlocks;
+  return block;
+}
+
+function flatten(node: Node): Node[] {
+  // A table cannot exist without its rows, so degrade it to one paragraph per row.
+  if (node.block.type === "table") {
+    return node.children.flatMap((row) => {
+      const cells = "table_row" in row.block ? row.block.table_row.cells : [];
+      return paragraphs(cells.flatMap((cell, i) => (i ? [richText(" | "), ...cell] : cell)));
+    });
+  }
+  return [leaf(node.block), ...node.children.flatMap(flatten)];
+}
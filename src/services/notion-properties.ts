@@ -0,0 +1,93 @@
+import type { CreatePageParameters } from "@notionhq/client/build/src/api-endpoints";
+import { textToRichText } from "./notion-markdown";
+
+/** One page property value, as `pages.create` accepts it. */
+export type PropertyValue = NonNullable<CreatePageParameters["properties"]>[string];
+
+/** Facts about a note that can be written into database columns. */
+export type NoteMetadata = {
+  recordedAt?: string; // ISO timestamp of when recording started
+  durationSec?: number;
+  language?: string; // e.g. "en"
+  source?: string; // where the note came from, e.g. "Voice Note"
+  tags?: string[];
+};
+
+/** Which database property each metadata field goes into. Unset fields are not written. */
+export type PropertyMapping = Partial<Record<keyof NoteMetadata, string>>;
+
+export type MappedProperties = {
+  properties: Record<string, PropertyValue>;
+  /** Human-readable reasons for fields that were mapped but could not be written. */
+  skipped: string[];
+};
+
+/**
+ * Turn note metadata into page properties for a database, following `mapping`.
+ * A field is skipped (never an error) when it has no value, its property is missing
+ * from the schema, or the property's type can't hold it.
+ */
+export function mapNoteProperties(
+  schema: Record<string, { type: string }>,
+  mapping: PropertyMapping,
+  meta: NoteMetadata,
+): MappedProperties {
+  const properties: Record<string, PropertyValue> = {};
+  const skipped: string[] = [];
+
+  for (const [field, propName] of Object.entries(mapping) as Array<[keyof NoteMetadata, string | undefined]>) {
+    if (!propName) continue;
+    const value = meta[field];
+    if (value == null || (Array.isArray(value) && !value.length)) continue;
+
+    const prop = schema[propName];
+    if (!prop) {
+      skipped.push(`${field}: no "${propName}" property in database`);
+      continue;
+    }
+
+    const mapped = toPropertyValue(field, value, prop.type);
+    if (mapped) properties[propName] = mapped;
+    else skipped.push(`${field}: "${propName}" is a ${prop.type} property`);
+  }
+
+  return { properties, skipped };
+}
+
+function toPropertyValue(
+  field: keyof NoteMetadata,
+  value: string | number | string[],
+  type: string,
+): PropertyValue | null {
+  const text = Array.isArray(value)
+    ? value.join(", ")
+    : field === "durationSec"
+      ? formatDuration(Number(value))
+      : String(value);
+
+  switch (type) {
+    case "multi_select":
+      return { multi_select: (Array.isArray(value) ? value : [text]).map((name) => ({ name: optionName(name) })) };
+    case "select":
+      return { select: { name: optionName(Array.isArray(value) ? value[0] : text) } };
+    case "date":
+      return field === "recordedAt" ? { date: { start: String(value) } } : null;
+    case "number":
+      return typeof value === "number" ? { number: Math.round(value) } : null;
+    case "rich_text":
+      return { rich_text: textToRichText(text) };
+    default:
+      return null;
+  }
+}
+
+/** Select option names may not contain commas and are capped at 100 characters. */
+function optionName(name: string): string {
+  return name.replace(/,/g, " ").trim().slice(0, 100);
+}
+
+/** `m:ss`, e.g. 2:05. */
+export function formatDuration(sec: number): string {
+  const s = Math.round(sec);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
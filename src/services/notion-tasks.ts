@@ -0,0 +1,91 @@
+import type { BlockObjectRequest } from "@notionhq/client/build/src/api-endpoints";
+import { notionClient } from "./notion-client";
+import { textToRichText } from "./notion-markdown";
+import type { PropertyValue } from "./notion-properties";
+import type { ActionItem } from "./openai";
+
+type SchemaProperty = { type: string; relation?: { database_id?: string } };
+
+/** An "Action Items" heading followed by one unchecked to-do per task. */
+export function actionItemBlocks(tasks: ActionItem[]): BlockObjectRequest[] {
+  if (!tasks.length) return [];
+  return [
+    { type: "heading_2", heading_2: { rich_text: textToRichText("Action Items") } },
+    ...tasks.map((item): BlockObjectRequest => ({
+      type: "to_do",
+      to_do: { rich_text: textToRichText(actionItemText(item)), checked: false },
+    })),
+  ];
+}
+
+/** "Send the draft (due 2025-03-14, high priority)" */
+export function actionItemText({ task, due, priority }: ActionItem): string {
+  const extras = [due && `due ${due}`, priority && `${priority} priority`].filter(Boolean);
+  return extras.length ? `${task} (${extras.join(", ")})` : task;
+}
+
+/**
+ * Add one row per task to a tasks database. Due dates and priorities go into a
+ * date property (preferably "Due") and a "Priority" select when the schema has them.
+ * When a relation property points at the notes database, each row links back to
+ * the source page through it.
+ */
+export async function createTaskRows(params: {
+  notionToken: string;
+  databaseId: string;
+  tasks: ActionItem[];
+  /** The note page the tasks came from. */
+  sourcePageId: string;
+  /** Database that holds the note page, used to find the back-link relation. */
+  sourceDatabaseId?: string;
+}): Promise<{ created: number; relation?: string; skipped: string[] }> {
+  const { notionToken, databaseId, tasks, sourcePageId, sourceDatabaseId } = params;
+  if (!tasks.length) return { created: 0, skipped: [] };
+
+  const notion = notionClient(notionToken);
+  const db = await notion.databases.retrieve({ database_id: databaseId });
+  const schema = db.properties as Record<string, SchemaProperty>;
+
+  const titleProp = findProperty(schema, (_, p) => p.type === "title") ?? "Name";
+  const dueProp =
+    findProperty(schema, (name, p) => p.type === "date" && /^due( date)?$/i.test(name)) ??
+    findProperty(schema, (_, p) => p.type === "date");
+  const priorityProp = findProperty(schema, (name, p) => p.type === "select" && /^priority$/i.test(name));
+  const relationProp = sourceDatabaseId
+    ? findProperty(schema, (_, p) => p.type === "relation" && sameId(p.relation?.database_id ?? "", sourceDatabaseId))
+    : undefined;
+
+  const skipped: string[] = [];
+  if (tasks.some((t) => t.due) && !dueProp) skipped.push("due dates: no date property in tasks database");
+  if (tasks.some((t) => t.priority) && !priorityProp) {
+    skipped.push('priorities: no "Priority" select property in tasks database');
+  }
+
+  for (const item of tasks) {
+    const properties: Record<string, PropertyValue> = {
+      [titleProp]: { title: textToRichText(item.task) },
+    };
+    if (item.due && dueProp) properties[dueProp] = { date: { start: item.due } };
+    if (item.priority && priorityProp) properties[priorityProp] = { select: { name: capitalize(item.priority) } };
+    if (relationProp) properties[relationProp] = { relation: [{ id: sourcePageId }] };
+
+    await notion.pages.create({ parent: { database_id: databaseId }, properties });
+  }
+
+  return { created: tasks.length, relation: relationProp, skipped };
+}
+
+function findProperty(
+  schema: Record<string, SchemaProperty>,
+  match: (name: string, prop: SchemaProperty) => boolean,
+): string | undefined {
+  return Object.entries(schema).find(([name, prop]) => match(name, prop))?.[0];
+}
+
+function sameId(a: string, b: string): boolean {
+  return a.replace(/-/g, "").toLowerCase() === b.replace(/-/g, "").toLowerCase();
+}
+
+function capitalize(s: string): string {
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
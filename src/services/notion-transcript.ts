@@ -0,0 +1,63 @@
+import type { BlockObjectRequest } from "@notionhq/client/build/src/api-endpoints";
+import { languageName } from "../lib/languages";
+import { clockLabel } from "../lib/subtitles";
+import type { Transcript } from "../lib/types";
+import { ARRAY_LIMIT, RICH_TEXT_LIMIT, markdownToNotionBlocks, textToRichText } from "./notion-markdown";
+
+/**
+ * The raw transcript as collapsed toggle(s) under the note, one `[mm:ss]`-prefixed line
+ * per segment when timings are known. Lines are packed into paragraphs of one rich_text
+ * item each, and a very long transcript is spread over several toggles to stay within
+ * Notion's 100-children limit.
+ */
+export function transcriptToggleBlocks(transcript: Transcript): BlockObjectRequest[] {
+  const lines = transcript.segments?.length
+    ? transcript.segments.map((seg) => `${clockLabel(seg.start)} ${seg.text}`)
+    : [transcript.text.trim()];
+
+  const paragraphs: string[] = [];
+  let current = "";
+  for (const line of lines.flatMap(splitLong)) {
+    if (current && current.length + 1 + line.length > RICH_TEXT_LIMIT) {
+      paragraphs.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n${line}` : line;
+  }
+  if (current) paragraphs.push(current);
+  if (!paragraphs.length) return [];
+
+  const parts = Math.ceil(paragraphs.length / ARRAY_LIMIT);
+  return Array.from({ length: parts }, (_, i) => ({
+    type: "toggle",
+    toggle: {
+      rich_text: textToRichText(parts > 1 ? `Raw transcript (${i + 1} of ${parts})` : "Raw transcript"),
+      children: paragraphs
+        .slice(i * ARRAY_LIMIT, (i + 1) * ARRAY_LIMIT)
+        .map((text): BlockObjectRequest => ({ type: "paragraph", paragraph: { rich_text: textToRichText(text) } })),
+    },
+  })) as BlockObjectRequest[];
+}
+
+/**
+ * The note as it was spoken, under a translated note, as collapsed toggle(s) titled
+ * "Original (French)". Split over several toggles like the transcript when it is long.
+ */
+export function originalToggleBlocks(markdown: string, language?: string): BlockObjectRequest[] {
+  const blocks = markdownToNotionBlocks(markdown, 1);
+  const label = language ? `Original (${languageName(language)})` : "Original";
+  const parts = Math.ceil(blocks.length / ARRAY_LIMIT);
+  return Array.from({ length: parts }, (_, i) => ({
+    type: "toggle",
+    toggle: {
+      rich_text: textToRichText(parts > 1 ? `${label} (${i + 1} of ${parts})` : label),
+      children: blocks.slice(i * ARRAY_LIMIT, (i + 1) * ARRAY_LIMIT),
+    },
+  })) as BlockObjectRequest[];
+}
+
+function splitLong(line: string): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < line.length; i += RICH_TEXT_LIMIT) out.push(line.slice(i, i + RICH_TEXT_LIMIT));
+  return out;
+}
@@ -1,11 +1,21 @@
-import { Client } from "@notionhq/client";
+import type { Client } from "@notionhq/client";
 import type {
   BlockObjectRequest,
   CreatePageResponse,
   PageObjectResponse,
 } from "@notionhq/client/build/src/api-endpoints";
-import { marked } from "marked";
-import type { Tokens } from "marked";
+import { notionClient } from "./notion-client";
+import { ARRAY_LIMIT, markdownToNotionBlocks, plainText, textToRichText } from "./notion-markdown";
+import { NoteMetadata, PropertyMapping, mapNoteProperties } from "./notion-properties";
+import { actionItemBlocks } from "./notion-tasks";
+import { originalToggleBlocks, transcriptToggleBlocks } from "./notion-transcript";
+import type { ActionItem } from "./openai";
+import type { Transcript } from "../lib/types";
+
+export { markdownToNotionBlocks } from "./notion-markdown";
+
+/** A translated note as it was spoken; `language` is an ISO 639-1 code. */
+export type OriginalNote = { markdown: string; language?: string };
 
 /** Create a Notion page from cleaned Markdown. */
 export async function createNotionPageFromMarkdown(params: {
@@ -14,136 +24,271 @@ export async function createNotionPageFromMarkdown(params: {
   markdown: string;
   /** Optional explicit page title. If omitted, we’ll try to derive from first H1. */
   explicitTitle?: string;
-}): Promise<{ pageId: string; url?: string; title: string }> {
-  const { notionToken, databaseId, markdown, explicitTitle } = params;
+  /** Recording facts to write into database columns, per `propertyMap`. */
+  metadata?: NoteMetadata;
+  propertyMap?: PropertyMapping;
+  /** Added under an "Action Items" heading as to-do blocks. */
+  tasks?: ActionItem[];
+  /** The note in the spoken language when `markdown` is a translation; added as a collapsed toggle. */
+  original?: OriginalNote;
+  /** Raw transcript, added as a collapsed toggle under the note. */
+  transcript?: Transcript;
+  /** The recording, as made by `audioAttachmentBlocks`; placed just above the transcript. */
+  audio?: BlockObjectRequest[];
+}): Promise<{ pageId: string; url?: string; title: string; skippedProperties: string[] }> {
+  const {
+    notionToken,
+    markdown,
+    explicitTitle,
+    metadata = {},
+    propertyMap = {},
+    tasks,
+    original,
+    transcript,
+    audio,
+  } = params;
+  const databaseId = normalizeNotionId(params.databaseId);
   if (!notionToken) throw new Error("Missing Notion token");
   if (!databaseId) throw new Error("Missing Notion databaseId");
-  if (!markdown?.trim()) throw new Error("Markdown content is empty");
 
-  const notion = new Client({ auth: notionToken });
-
-  // Build blocks from markdown (simple mapping; extend as you wish)
-  const blocks = markdownToNotionBlocks(markdown);
-  if (!blocks.length) throw new Error("No content could be derived from markdown");
-
-  // Determine page title: explicit > first H1 > fallback
-  let derivedTitle = explicitTitle?.trim() || "New Note";
-  const firstBlock = blocks[0];
-  if (firstBlock && firstBlock.type === "heading_1" && firstBlock.heading_1?.rich_text?.[0]?.type === "text") {
-    derivedTitle = firstBlock.heading_1.rich_text[0].text.content || derivedTitle;
-    blocks.shift(); // remove the H1 from children so it isn't duplicated
-  }
+  const notion = notionClient(notionToken);
+  const { title: derivedTitle, blocks } = noteBlocks(markdown, { explicitTitle, tasks, original, transcript, audio });
 
   // Retrieve the DB to locate the actual *title* property key (often “Name”, but not guaranteed).
   // Notion requires properties to match the database schema when creating pages in a database. :contentReference[oaicite:0]{index=0}
   const db = await notion.databases.retrieve({ database_id: databaseId }); // :contentReference[oaicite:1]{index=1}
-  let titleProp = "Name";
-  for (const [propName, prop] of Object.entries(db.properties) as Array<[string, { type: string }]>) {
-    if (prop.type === "title") {
-      titleProp = propName;
-      break;
-    }
-  }
+  const titleProp = titlePropertyOf(db.properties);
+  const { properties, skipped } = mapNoteProperties(db.properties, propertyMap, metadata);
 
-  // Create the page with children blocks. Notion supports providing `children` when creating a page. :contentReference[oaicite:2]{index=2}
+  // Create the page with the first batch of children; the rest is appended below. :contentReference[oaicite:2]{index=2}
+  const [firstBatch = []] = batchBlocks(blocks);
   const created: CreatePageResponse = await notion.pages.create({
     parent: { database_id: databaseId },
     properties: {
+      ...properties,
       [titleProp]: {
         title: [{ type: "text", text: { content: derivedTitle } }],
       },
     },
-    children: blocks,
+    children: firstBatch,
   }); // :contentReference[oaicite:3]{index=3}
 
+  try {
+    await appendBlocks(notion, created.id, blocks.slice(firstBatch.length));
+  } catch (e: unknown) {
+    // A retry creates the page again, so don't leave a half-written copy behind.
+    await notion.pages.update({ page_id: created.id, in_trash: true }).catch(() => undefined);
+    throw e;
+  }
+
   return {
     pageId: created.id,
     url: (created as PageObjectResponse).url, // present for database children
     title: derivedTitle,
+    skippedProperties: skipped,
   };
 }
 
-/** Minimal Markdown → Notion Blocks mapper (H1–H3, paragraph, code, bulleted list). */
-export function markdownToNotionBlocks(markdown: string): BlockObjectRequest[] {
-  const tokens = marked.lexer(markdown || ""); // Marked's lexer gives us token stream we can map over. :contentReference[oaicite:4]{index=4}
-  const blocks: BlockObjectRequest[] = [];
-
-  for (const token of tokens) {
-    switch (token.type) {
-      case "heading": {
-        const depth = (token as Tokens.Heading).depth;
-        const text = String((token as Tokens.Heading).text || "");
-        if (depth === 1) {
-          blocks.push({
-            object: "block",
-            type: "heading_1",
-            heading_1: { rich_text: [{ type: "text", text: { content: text } }] },
-          });
-        } else if (depth === 2) {
-          blocks.push({
-            object: "block",
-            type: "heading_2",
-            heading_2: { rich_text: [{ type: "text", text: { content: text } }] },
-          });
-        } else {
-          blocks.push({
-            object: "block",
-            type: "heading_3",
-            heading_3: { rich_text: [{ type: "text", text: { content: text } }] },
-          });
-        }
-        break;
-      }
-
-      case "paragraph": {
-        const text = String((token as Tokens.Paragraph).text || "");
-        blocks.push({
-          object: "block",
-          type: "paragraph",
-          paragraph: { rich_text: [{ type: "text", text: { content: text } }] },
-        });
-        break;
-      }
-
-      case "code": {
-        const t = token as Tokens.Code;
-        blocks.push({
-          object: "block",
-          type: "code",
-          code: {
-            rich_text: [{ type: "text", text: { content: String(t.text || "") } }],
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            language: t.lang && t.lang.length > 0 ? t.lang : ("plain text" as any),
-          },
-        });
-        break;
-      }
-
-      case "list": {
-        // Map any list items to bulleted_list_item for simplicity.
-        // You can extend this to `numbered_list_item` by checking token.ordered. :contentReference[oaicite:5]{index=5}
-        const list = token as Tokens.List;
-        for (const item of list.items || []) {
-          blocks.push({
-            object: "block",
-            type: "bulleted_list_item",
-            bulleted_list_item: {
-              rich_text: [{ type: "text", text: { content: String(item.text || "") } }],
-            },
-          });
-        }
-        break;
-      }
-
-      case "space":
-        // ignore spacing tokens
-        break;
-
-      default:
-        // unsupported token types are skipped to keep implementation small
-        break;
+/** Append a note to an existing page, under a heading with the time it was recorded. */
+export async function appendNoteToPage(params: {
+  notionToken: string;
+  pageId: string;
+  markdown: string;
+  explicitTitle?: string;
+  /** When the note was recorded; defaults to now. */
+  at?: Date;
+  tasks?: ActionItem[];
+  original?: OriginalNote;
+  transcript?: Transcript;
+  audio?: BlockObjectRequest[];
+}): Promise<{ pageId: string; url?: string; title: string }> {
+  const { notionToken, markdown, explicitTitle, at = new Date(), tasks, original, transcript, audio } = params;
+  const pageId = normalizeNotionId(params.pageId);
+  if (!notionToken) throw new Error("Missing Notion token");
+  if (!pageId) throw new Error("Missing Notion page ID");
+
+  const notion = notionClient(notionToken);
+  const { title, blocks } = noteBlocks(markdown, { explicitTitle, tasks, original, transcript, audio });
+  const page = (await notion.pages.retrieve({ page_id: pageId })) as PageObjectResponse;
+
+  await appendBlocks(notion, pageId, [timestampHeading(at, title), ...blocks]);
+  return { pageId, url: page.url, title };
+}
+
+/**
+ * Append a note to today's page in a journal database, creating the page first if needed.
+ * Today's page is the one whose `dateProperty` equals today's date or, without a date
+ * property, whose title is today's date (YYYY-MM-DD).
+ */
+export async function appendNoteToDailyPage(params: {
+  notionToken: string;
+  databaseId: string;
+  markdown: string;
+  explicitTitle?: string;
+  /** Date property that identifies a day's page. Optional; falls back to matching the title. */
+  dateProperty?: string;
+  at?: Date;
+  tasks?: ActionItem[];
+  original?: OriginalNote;
+  transcript?: Transcript;
+  audio?: BlockObjectRequest[];
+}): Promise<{ pageId: string; url?: string; title: string; created: boolean }> {
+  const {
+    notionToken,
+    markdown,
+    explicitTitle,
+    dateProperty,
+    at = new Date(),
+    tasks,
+    original,
+    transcript,
+    audio,
+  } = params;
+  const databaseId = normalizeNotionId(params.databaseId);
+  if (!notionToken) throw new Error("Missing Notion token");
+  if (!databaseId) throw new Error("Missing Notion databaseId");
+
+  const notion = notionClient(notionToken);
+  const { title, blocks } = noteBlocks(markdown, { explicitTitle, tasks, original, transcript, audio });
+  const day = localDate(at);
+
+  const db = await notion.databases.retrieve({ database_id: databaseId });
+  const titleProp = titlePropertyOf(db.properties);
+  const dateProp = dateProperty && db.properties[dateProperty]?.type === "date" ? dateProperty : undefined;
+
+  // Look up today's page by its date property when there is one, else by title.
+  const found = await notion.databases.query({
+    database_id: databaseId,
+    filter: dateProp ? { property: dateProp, date: { equals: day } } : { property: titleProp, title: { equals: day } },
+    page_size: 1,
+  });
+
+  let page = found.results[0] as PageObjectResponse | undefined;
+  const created = !page;
+  if (!page) {
+    page = (await notion.pages.create({
+      parent: { database_id: databaseId },
+      properties: {
+        [titleProp]: { title: [{ type: "text", text: { content: day } }] },
+        ...(dateProp ? { [dateProp]: { date: { start: day } } } : {}),
+      },
+    })) as PageObjectResponse;
+  }
+
+  await appendBlocks(notion, page.id, [timestampHeading(at, title), ...blocks]);
+  return { pageId: page.id, url: page.url, title, created };
+}
+
+/** Accept a bare ID or a Notion URL and return the 32-hex ID (or the input unchanged). */
+export function normalizeNotionId(input: string | undefined): string {
+  const value = (input ?? "").trim();
+  const match = value.match(/([0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12})(?:[?#].*)?$/i);
+  return match ? match[1].replace(/-/g, "") : value;
+}
+
+/**
+ * Append blocks under an existing page or block, in as many requests as Notion's limits require.
+ * If a request fails, the blocks already appended are deleted again (best effort), so a retry
+ * doesn't leave the start of the note on the page twice.
+ */
+export async function appendBlocks(notion: Client, blockId: string, blocks: BlockObjectRequest[]): Promise<void> {
+  const appended: string[] = [];
+  try {
+    for (const batch of batchBlocks(blocks)) {
+      const { results } = await notion.blocks.children.append({ block_id: blockId, children: batch });
+      appended.push(...results.map((block) => block.id));
     }
+  } catch (e: unknown) {
+    for (const id of appended) await notion.blocks.delete({ block_id: id }).catch(() => undefined);
+    throw e;
+  }
+}
+
+/** Notion caps a request at 100 top-level children and 1000 blocks overall (nested ones included). */
+const BLOCKS_PER_REQUEST = 1000;
+
+function batchBlocks(blocks: BlockObjectRequest[]): BlockObjectRequest[][] {
+  const batches: BlockObjectRequest[][] = [];
+  let current: BlockObjectRequest[] = [];
+  let size = 0;
+  for (const block of blocks) {
+    const n = countBlocks(block);
+    if (current.length && (current.length >= ARRAY_LIMIT || size + n > BLOCKS_PER_REQUEST)) {
+      batches.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(block);
+    size += n;
+  }
+  if (current.length) batches.push(current);
+  return batches;
+}
+
+function countBlocks(block: BlockObjectRequest): number {
+  const payload = (block as unknown as Record<string, { children?: BlockObjectRequest[] }>)[block.type as string];
+  return 1 + (payload?.children ?? []).reduce((sum, child) => sum + countBlocks(child), 0);
+}
+
+/**
+ * Markdown → blocks, with the title taken from `explicitTitle` or a leading H1 (which is then dropped).
+ * Action items, if any, are added at the end as to-dos, followed by the original-language note,
+ * the audio and the raw transcript toggle.
+ */
+function noteBlocks(
+  markdown: string,
+  {
+    explicitTitle,
+    tasks = [],
+    original,
+    transcript,
+    audio = [],
+  }: {
+    explicitTitle?: string;
+    tasks?: ActionItem[];
+    original?: OriginalNote;
+    transcript?: Transcript;
+    audio?: BlockObjectRequest[];
+  } = {},
+): { title: string; blocks: BlockObjectRequest[] } {
+  if (!markdown?.trim()) throw new Error("Markdown content is empty");
+
+  const blocks = markdownToNotionBlocks(markdown);
+  if (!blocks.length) throw new Error("No content could be derived from markdown");
+
+  // Determine page title: explicit > first H1 > fallback
+  let title = explicitTitle?.trim() || "New Note";
+  const firstBlock = blocks[0];
+  if (firstBlock && "heading_1" in firstBlock) {
+    title = explicitTitle?.trim() || plainText(firstBlock.heading_1.rich_text).trim() || title;
+    blocks.shift(); // remove the H1 from children so it isn't duplicated
   }
+  return {
+    title,
+    blocks: [
+      ...blocks,
+      ...actionItemBlocks(tasks),
+      ...(original?.markdown.trim() ? originalToggleBlocks(original.markdown, original.language) : []),
+      ...audio,
+      ...(transcript ? transcriptToggleBlocks(transcript) : []),
+    ],
+  };
+}
+
+/** The database's *title* property key (often “Name”, but not guaranteed). */
+function titlePropertyOf(properties: Record<string, { type: string }>): string {
+  for (const [propName, prop] of Object.entries(properties)) {
+    if (prop.type === "title") return propName;
+  }
+  return "Name";
+}
+
+function timestampHeading(at: Date, title: string): BlockObjectRequest {
+  const time = at.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  return { type: "heading_2", heading_2: { rich_text: textToRichText(`${time} · ${title}`) } };
+}
 
-  return blocks;
+/** YYYY-MM-DD in the local timezone (toISOString would give the UTC day). */
+function localDate(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
 }
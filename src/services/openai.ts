@@ -1,5 +1,25 @@
-import type { FilePath } from "../lib/types";
+import type { FilePath, Transcript } from "../lib/types";
 import { promises as fsp } from "node:fs";
+import { basename, extname } from "node:path";
+import { request } from "../lib/http";
+import { languageCode, languageName } from "../lib/languages";
+
+export const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+/** Content types for the audio formats the transcription endpoint accepts, by extension. */
+const AUDIO_MIME: Record<string, string> = {
+  ".flac": "audio/flac",
+  ".m4a": "audio/mp4",
+  ".mp3": "audio/mpeg",
+  ".mp4": "audio/mp4",
+  ".mpeg": "audio/mpeg",
+  ".mpga": "audio/mpeg",
+  ".oga": "audio/ogg",
+  ".ogg": "audio/ogg",
+  ".opus": "audio/ogg",
+  ".wav": "audio/wav",
+  ".webm": "audio/webm",
+};
 
 export async function transcribeAudio(
   filePath: FilePath,
@@ -11,62 +31,80 @@ export async function transcribeAudio(
     language?: string; // e.g., "en"
     response_format?: "json" | "text" | "verbose_json" | "srt" | "vtt";
     timeoutMs?: number;
+    baseUrl?: string; // OpenAI-compatible server, e.g. "http://localhost:8000/v1"
+    signal?: AbortSignal; // cancels the request along with the timeout
   },
-): Promise<string> {
+): Promise<Transcript> {
   const model = (opts?.model ?? "gpt-4o-mini-transcribe").trim(); // fallback to "whisper-1" if needed
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), opts?.timeoutMs ?? 90_000);
+  // Read file -> wrap as a File so FormData accepts it (Node fetch/undici expects Blob/File)
+  const buf = await fsp.readFile(filePath);
+  // global File/Blob are available in modern Node. The server sniffs the format from the name and type.
+  const type = AUDIO_MIME[extname(filePath).toLowerCase()] ?? "application/octet-stream";
+  const file = new File([buf], basename(filePath), { type });
 
-  try {
-    // Read file -> wrap as a File so FormData accepts it (Node fetch/undici expects Blob/File)
-    const buf = await fsp.readFile(filePath);
-    // global File/Blob are available in modern Node
-    const file = new File([buf], "audio.wav", { type: "audio/wav" });
-
-    const form = new FormData();
-    form.append("file", file); // MUST be Blob/File for undici FormData
-    form.append("model", model); // required by OpenAI
-    if (opts?.temperature != null) form.append("temperature", String(opts.temperature));
-    if (opts?.prompt) form.append("prompt", opts.prompt);
-    if (opts?.language) form.append("language", opts.language);
-    if (opts?.response_format) form.append("response_format", opts.response_format);
-
-    const res = await fetch("https://api.openai.com/v1/audio/transcriptions", {
+  const form = new FormData();
+  form.append("file", file); // MUST be Blob/File for undici FormData
+  form.append("model", model); // required by OpenAI
+  if (opts?.temperature != null) form.append("temperature", String(opts.temperature));
+  if (opts?.prompt) form.append("prompt", opts.prompt);
+  if (opts?.language) form.append("language", opts.language);
+  if (opts?.response_format) form.append("response_format", opts.response_format);
+
+  const baseUrl = (opts?.baseUrl || OPENAI_BASE_URL).replace(/\/+$/, "");
+  const res = await request(
+    `${baseUrl}/audio/transcriptions`,
+    {
       method: "POST",
-      headers: { Authorization: `Bearer ${apiKey}` },
+      // Self-hosted servers often run without auth.
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
       body: form,
-      signal: controller.signal,
-    });
-
-    if (!res.ok) {
-      const errText = await res.text().catch(() => "");
-      throw new Error(`OpenAI transcription failed: ${res.status} ${errText}`);
-    }
-    const data = (await res.json()) as { text?: string };
-    if (!data?.text) throw new Error("No text in transcription response");
-    return data.text;
-  } finally {
-    clearTimeout(timeout);
-  }
+    },
+    {
+      service: opts?.baseUrl ? "Transcription server" : "OpenAI",
+      timeoutMs: opts?.timeoutMs ?? 90_000,
+      signal: opts?.signal,
+      // A repeated upload is transcribed (and billed) again, so only rate limits and refused connections are retried.
+      idempotent: false,
+    },
+  );
+  const data = (await res.json()) as {
+    text?: string;
+    language?: string; // e.g. "french"
+    segments?: { start: number; end: number; text: string }[];
+  };
+  if (!data?.text) throw new Error("No text in transcription response");
+  // Only verbose_json carries segments and the detected language.
+  const segments = data.segments?.map(({ start, end, text }) => ({ start, end, text: text.trim() }));
+  return {
+    text: data.text,
+    segments: segments?.length ? segments : undefined,
+    language: languageCode(data.language) ?? opts?.language,
+  };
 }
 
-/**
- * Utility: quick capability probe to choose a default model at runtime.
- * Calls a super-light HEAD request to see if credentials look valid.
- * (Not required; you can skip this and just read from preferences.)
- */
-export async function checkOpenAIKey(apiKey: string): Promise<boolean> {
-  try {
-    const res = await fetch("https://api.openai.com/v1/models", {
-      method: "GET",
-      headers: { Authorization: `Bearer ${apiKey}` },
-    });
-    return res.ok;
-  } catch {
-    return false;
-  }
+/** The gpt-4o transcription models only answer in json/text; whisper-1 and most compatible servers give timings. */
+export function supportsTimestamps(model: string): boolean {
+  return !/^gpt-4o/.test(model.trim());
 }
 
+/** Ids of the models this key can use. */
+export async function listOpenAIModels(apiKey: string, signal?: AbortSignal): Promise<string[]> {
+  const res = await request(
+    `${OPENAI_BASE_URL}/models`,
+    { method: "GET", headers: { Authorization: `Bearer ${apiKey}` } },
+    { service: "OpenAI", timeoutMs: 30_000, signal, idempotent: true },
+  );
+  const data = (await res.json()) as { data?: { id: string }[] };
+  return (data.data ?? []).map((m) => m.id);
+}
+
+export const DEFAULT_CLEANUP_PROMPT = `
+                You are a helpful assistant that cleans up transcriptions. 
+                Please remove any unnecessary filler words, pauses, or repetitions from the transcription. 
+                Your response should be in markdown format with an H1 at the top acting as the title of the transcription.
+                The title should be concise and relevant to the content of the transcription.
+                The content should be clear and easy to read, maintaining the original meaning while improving clarity.`;
+
 /**
  * Clean up a raw transcript:
  * - remove fillers (um, uh, like...), stutters, false starts
@@ -79,55 +117,265 @@ export async function cleanTranscript(params: {
   model?: string; // default: "gpt-4.1-mini"
   temperature?: number; // default: 0.2
   timeoutMs?: number; // default: 60s
+  signal?: AbortSignal;
+  instructions?: string; // extra guidance appended to the system prompt
+  systemPrompt?: string; // replaces the default cleanup prompt
+  userPrompt?: string; // replaces the default user message (which wraps `text`)
 }): Promise<string> {
-  const { apiKey, text, model = "gpt-4.1-mini", temperature = 0.2, timeoutMs = 60_000 } = params;
+  const { apiKey, text, model = "gpt-4.1-mini", temperature = 0.2, timeoutMs = 60_000, instructions } = params;
 
   if (!apiKey) throw new Error("Missing OpenAI API key");
   if (!text?.trim()) return "";
 
-  const controller = new AbortController();
-  const t = setTimeout(() => controller.abort(), timeoutMs);
+  const content = await chatCompletion({
+    apiKey,
+    model,
+    temperature,
+    messages: [
+      {
+        role: "system",
+        content: `${params.systemPrompt ?? DEFAULT_CLEANUP_PROMPT}
+          ${instructions?.trim() ? `\nAdditional instructions:\n${instructions.trim()}` : ""}`,
+      },
+      { role: "user", content: params.userPrompt ?? `Please clean up the following transcription: ${text}` },
+    ],
+    timeoutMs,
+    signal: params.signal,
+  });
+  return content ?? text;
+}
 
-  try {
-    const body = {
-      model,
-      temperature,
-      messages: [
-        {
-          role: "system",
-          content: `
-                You are a helpful assistant that cleans up transcriptions. 
-                Please remove any unnecessary filler words, pauses, or repetitions from the transcription. 
-                Your response should be in markdown format with an H1 at the top acting as the title of the transcription.
-                The title should be concise and relevant to the content of the transcription.
-                The content should be clear and easy to read, maintaining the original meaning while improving clarity.
-            `,
-        },
-        { role: "user", content: `Please clean up the following transcription: ${text}` },
-      ],
-    };
-
-    const res = await fetch("https://api.openai.com/v1/chat/completions", {
+/**
+ * Name the language a transcript is in, as an ISO 639-1 code, for transcription models that
+ * don't report it. With `candidates`, the answer is one of them unless the text clearly isn't.
+ */
+export async function detectLanguage(params: {
+  apiKey: string;
+  text: string;
+  candidates?: string[]; // ISO 639-1 codes the speaker usually uses
+  model?: string; // default: "gpt-4.1-mini"
+  timeoutMs?: number; // default: 30s
+  signal?: AbortSignal;
+}): Promise<string | undefined> {
+  const { apiKey, text, candidates = [], model = "gpt-4.1-mini", timeoutMs = 30_000 } = params;
+
+  if (!apiKey) throw new Error("Missing OpenAI API key");
+  if (!text?.trim()) return undefined;
+
+  const content = await chatCompletion({
+    apiKey,
+    model,
+    json: true,
+    messages: [
+      {
+        role: "system",
+        content: `
+              You identify the language of voice note transcripts.
+              Reply with JSON of the form {"language": "xx"} where xx is the ISO 639-1 code of the main language.
+              ${candidates.length ? `The speaker usually speaks one of: ${candidates.join(", ")}.` : ""}
+          `,
+      },
+      // The opening is enough to tell, and keeps the request small.
+      { role: "user", content: text.slice(0, 1000) },
+    ],
+    timeoutMs,
+    signal: params.signal,
+  });
+
+  const { language } = jsonReply(content);
+  return typeof language === "string" ? languageCode(language) : undefined;
+}
+
+/** Translate a Markdown note, keeping its structure. `from` and `to` are ISO 639-1 codes. */
+export async function translateMarkdown(params: {
+  apiKey: string;
+  text: string;
+  from?: string; // omitted → the model works it out
+  to: string;
+  model?: string; // default: "gpt-4.1-mini"
+  timeoutMs?: number; // default: 60s
+  signal?: AbortSignal;
+}): Promise<string> {
+  const { apiKey, text, from, to, model = "gpt-4.1-mini", timeoutMs = 60_000 } = params;
+
+  if (!apiKey) throw new Error("Missing OpenAI API key");
+  if (!text?.trim()) return "";
+
+  const content = await chatCompletion({
+    apiKey,
+    model,
+    messages: [
+      {
+        role: "system",
+        content: `
+              Translate the user's Markdown note ${from ? `from ${languageName(from)} ` : ""}into ${languageName(to)}.
+              Keep the Markdown structure exactly: headings, lists, task checkboxes, links, tables and code blocks.
+              Do not translate code, URLs or names. Reply with the translated Markdown only.
+          `,
+      },
+      { role: "user", content: text },
+    ],
+    timeoutMs,
+    signal: params.signal,
+  });
+  return content ?? "";
+}
+
+/**
+ * Suggest a few short topic tags for a note. Returns an empty list rather than
+ * throwing when the model's answer can't be parsed.
+ */
+export async function extractTags(params: {
+  apiKey: string;
+  text: string;
+  maxTags?: number; // default: 5
+  model?: string; // default: "gpt-4.1-mini"
+  timeoutMs?: number; // default: 30s
+  signal?: AbortSignal;
+}): Promise<string[]> {
+  const { apiKey, text, maxTags = 5, model = "gpt-4.1-mini", timeoutMs = 30_000 } = params;
+
+  if (!apiKey) throw new Error("Missing OpenAI API key");
+  if (!text?.trim()) return [];
+
+  const content = await chatCompletion({
+    apiKey,
+    model,
+    json: true,
+    messages: [
+      {
+        role: "system",
+        content: `
+              You tag notes for a personal knowledge base.
+              Reply with JSON of the form {"tags": ["..."]} containing at most ${maxTags} tags.
+              Tags are short (one to three words), lowercase, and describe the topics of the note.
+          `,
+      },
+      { role: "user", content: text },
+    ],
+    timeoutMs,
+    signal: params.signal,
+  });
+
+  const { tags } = jsonReply(content);
+  if (!Array.isArray(tags)) return [];
+  return tags
+    .filter((tag): tag is string => typeof tag === "string" && tag.trim().length > 0)
+    .map((tag) => tag.trim())
+    .slice(0, maxTags);
+}
+
+export type ActionItemPriority = "high" | "medium" | "low";
+
+/** A task the speaker committed to or asked for, as returned by `extractActionItems`. */
+export type ActionItem = {
+  task: string;
+  due?: string; // YYYY-MM-DD
+  priority?: ActionItemPriority;
+};
+
+/**
+ * Pull concrete action items ("I need to…", "remind me to…") out of a note as
+ * structured JSON. Items that don't validate are dropped; an unparseable answer
+ * yields an empty list.
+ */
+export async function extractActionItems(params: {
+  apiKey: string;
+  text: string;
+  /** Resolves relative dates like "by Friday"; defaults to now. */
+  today?: Date;
+  maxItems?: number; // default: 20
+  model?: string; // default: "gpt-4.1-mini"
+  timeoutMs?: number; // default: 30s
+  signal?: AbortSignal;
+}): Promise<ActionItem[]> {
+  const { apiKey, text, today = new Date(), maxItems = 20, model = "gpt-4.1-mini", timeoutMs = 30_000 } = params;
+
+  if (!apiKey) throw new Error("Missing OpenAI API key");
+  if (!text?.trim()) return [];
+
+  const content = await chatCompletion({
+    apiKey,
+    model,
+    json: true,
+    messages: [
+      {
+        role: "system",
+        content: `
+              You extract action items from voice notes. Today is ${today.toDateString()}.
+              Reply with JSON of the form {"tasks": [{"task": "...", "due": "YYYY-MM-DD", "priority": "high" | "medium" | "low"}]}.
+              Only include things the speaker has to do or asked someone to do; write each task as a short imperative.
+              Omit "due" unless a date or deadline was mentioned, and omit "priority" unless urgency was expressed.
+              If there are no action items, reply with {"tasks": []}.
+          `,
+      },
+      { role: "user", content: text },
+    ],
+    timeoutMs,
+    signal: params.signal,
+  });
+
+  const { tasks } = jsonReply(content);
+  if (!Array.isArray(tasks)) return [];
+  return tasks
+    .map(toActionItem)
+    .filter((item): item is ActionItem => item !== null)
+    .slice(0, maxItems);
+}
+
+type ChatMessage = { role: "system" | "user"; content: string };
+
+/** Send a chat completion request and return the first choice's reply, trimmed; undefined when there is none. */
+async function chatCompletion(params: {
+  apiKey: string;
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number; // default: 0
+  json?: boolean; // ask for a JSON object as the reply
+  timeoutMs: number;
+  signal?: AbortSignal;
+}): Promise<string | undefined> {
+  const { apiKey, model, messages, temperature = 0, json, timeoutMs, signal } = params;
+  const body = { model, temperature, messages, ...(json ? { response_format: { type: "json_object" } } : {}) };
+
+  const res = await request(
+    `${OPENAI_BASE_URL}/chat/completions`,
+    {
       method: "POST",
       headers: {
         Authorization: `Bearer ${apiKey}`,
         "Content-Type": "application/json",
       },
       body: JSON.stringify(body),
-      signal: controller.signal,
-    });
+    },
+    // Not idempotent: a completion that failed after reaching OpenAI may still be billed.
+    { service: "OpenAI", timeoutMs, signal, idempotent: false },
+  );
 
-    if (!res.ok) {
-      const err = await res.text().catch(() => "");
-      throw new Error(`Cleanup failed: ${res.status} ${err}`);
-    }
-
-    const data = (await res.json()) as {
-      choices?: { message?: { content?: string } }[];
-    };
+  const data = (await res.json()) as {
+    choices?: { message?: { content?: string } }[];
+  };
+  return data.choices?.[0]?.message?.content?.trim();
+}
 
-    return data.choices?.[0]?.message?.content?.trim() ?? text;
-  } finally {
-    clearTimeout(t);
+/** The fields of a JSON object reply; empty when the model answered with something else. */
+function jsonReply(content: string | undefined): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(content ?? "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
   }
 }
+
+/** Validate one model-produced task; bad optional fields are dropped, a missing task rejects the item. */
+function toActionItem(raw: unknown): ActionItem | null {
+  if (!raw || typeof raw !== "object") return null;
+  const { task, due, priority } = raw as Record<string, unknown>;
+  if (typeof task !== "string" || !task.trim()) return null;
+
+  const item: ActionItem = { task: task.trim().slice(0, 2000) };
+  if (typeof due === "string" && /^\d{4}-\d{2}-\d{2}$/.test(due) && !Number.isNaN(Date.parse(due))) item.due = due;
+  if (priority === "high" || priority === "medium" || priority === "low") item.priority = priority;
+  return item;
+}
@@ -0,0 +1,99 @@
+import { WhisperFlavor, runLocalWhisper } from "../lib/whisper";
+import type { FilePath, Prefs, Transcript, TranscriptionProviderId } from "../lib/types";
+import { supportsTimestamps, transcribeAudio } from "./openai";
+
+export type TranscribeFileOpts = {
+  language?: string; // e.g. "en"; omitted → provider auto-detects
+  prompt?: string;
+  signal?: AbortSignal;
+};
+
+/** Anything that can turn an audio file into text. */
+export type TranscriptionProvider = {
+  id: TranscriptionProviderId;
+  /** Longest audio (seconds) to send in one call; longer recordings are chunked. Unset → no limit. */
+  maxSegmentSec?: number;
+  /** Segment timings are included whenever the backend can report them. */
+  transcribe: (filePath: FilePath, opts?: TranscribeFileOpts) => Promise<Transcript>;
+};
+
+/** OpenAI's hosted transcription endpoint. */
+export function openAIProvider({ apiKey, model = "gpt-4o-mini-transcribe" }: { apiKey: string; model?: string }) {
+  return {
+    id: "openai",
+    // Stay well under the 25 MB upload limit (16 kHz mono PCM ≈ 19 MB per 10 minutes).
+    maxSegmentSec: 600,
+    transcribe: (filePath, opts) =>
+      transcribeAudio(filePath, apiKey, {
+        model,
+        timeoutMs: 90_000,
+        response_format: supportsTimestamps(model) ? "verbose_json" : undefined,
+        ...opts,
+      }),
+  } satisfies TranscriptionProvider;
+}
+
+/** Any server exposing OpenAI's `/audio/transcriptions` route (speaches, LocalAI, vLLM, …). */
+export function openAICompatibleProvider({
+  baseUrl,
+  apiKey = "",
+  model = "whisper-1",
+}: {
+  baseUrl: string;
+  apiKey?: string;
+  model?: string;
+}) {
+  if (!baseUrl) throw new Error("No transcription base URL configured");
+  return {
+    id: "openai-compatible",
+    maxSegmentSec: 600,
+    transcribe: (filePath, opts) =>
+      transcribeAudio(filePath, apiKey, {
+        baseUrl,
+        model,
+        timeoutMs: 300_000,
+        response_format: "verbose_json",
+        ...opts,
+      }),
+  } satisfies TranscriptionProvider;
+}
+
+/** whisper.cpp or faster-whisper on this machine; nothing leaves the device. */
+export function localWhisperProvider({
+  flavor,
+  binaryPath,
+  model,
+}: {
+  flavor: WhisperFlavor;
+  binaryPath: string;
+  model: string;
+}) {
+  return {
+    id: flavor,
+    transcribe: (filePath, opts) => runLocalWhisper(filePath, { flavor, binaryPath, model, ...opts }),
+  } satisfies TranscriptionProvider;
+}
+
+/** Build the provider selected in preferences, failing early on missing settings. */
+export function transcriptionProviderFromPrefs(prefs: Prefs): TranscriptionProvider {
+  const model = prefs.transcriptionModel || undefined;
+
+  switch (prefs.transcriptionProvider) {
+    case "openai-compatible":
+      return openAICompatibleProvider({
+        baseUrl: prefs.transcriptionBaseUrl ?? "",
+        apiKey: prefs.transcriptionApiKey,
+        model,
+      });
+
+    case "whisper-cpp":
+    case "faster-whisper":
+      if (!prefs.whisperBinaryPath) throw new Error("No whisper binary path configured");
+      if (!model) throw new Error("No transcription model configured for local whisper");
+      return localWhisperProvider({ flavor: prefs.transcriptionProvider, binaryPath: prefs.whisperBinaryPath, model });
+
+    default:
+      if (!prefs.openaiApiKey) throw new Error("No OpenAI API key configured");
+      return openAIProvider({ apiKey: prefs.openaiApiKey, model });
+  }
+}
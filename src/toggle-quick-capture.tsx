@@ -0,0 +1,20 @@
+import { LaunchType, launchCommand, showHUD } from "@raycast/api";
+import { usePrefs } from "./lib/prefs";
+import { toggleCapture } from "./lib/quick-capture";
+
+/**
+ * Start or stop a quick capture without opening a window; meant for a hotkey. The menu-bar
+ * command shows the recording and processes the note once it has stopped.
+ */
+export default async function Command() {
+  const prefs = usePrefs();
+  try {
+    const { started, stopped } = await toggleCapture(prefs);
+    if (started) await showHUD("🎙️ Recording… Press the hotkey again to stop");
+    else await showHUD(stopped ? "Recording saved; processing in the menu bar" : "Nothing was recorded");
+  } catch (e: unknown) {
+    await showHUD(`Quick capture failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  // Refresh the menu bar now rather than at its next interval; fails if it isn't enabled.
+  await launchCommand({ name: "quick-capture", type: LaunchType.Background }).catch(() => undefined);
+}
@@ -0,0 +1,146 @@
+import {
+  Action,
+  ActionPanel,
+  Detail,
+  Form,
+  Icon,
+  Toast,
+  getSelectedFinderItems,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { statSync } from "node:fs";
+import { rm } from "node:fs/promises";
+import { basename, join } from "node:path";
+import { useEffect, useState } from "react";
+import { ReviewForm } from "./components/review-form";
+import { OutboxNote, enqueueRecording } from "./lib/outbox";
+import { makeTempDir } from "./lib/path";
+import { processNote } from "./lib/pipeline";
+import { usePrefs } from "./lib/prefs";
+import { convertToWav } from "./lib/recording/ffmpeg";
+import { BUILT_IN_TEMPLATES, CleanupTemplate, DEFAULT_TEMPLATE_ID, listTemplates } from "./lib/templates";
+import type { FilePath } from "./lib/types";
+
+type Values = { files: string[]; templateId: string };
+
+export default function Command() {
+  const prefs = usePrefs();
+  const { push } = useNavigation();
+  const [files, setFiles] = useState<string[]>([]);
+  const [templates, setTemplates] = useState<CleanupTemplate[]>(BUILT_IN_TEMPLATES);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    listTemplates().then(setTemplates);
+    // Finder may not be frontmost (or not running); the picker still works then.
+    getSelectedFinderItems()
+      .then((items) => setFiles(items.map((i) => i.path).slice(0, 1)))
+      .catch(() => undefined);
+  }, []);
+
+  const onSubmit = async ({ files, templateId }: Values) => {
+    const input = files[0];
+    if (!input) {
+      await showToast({ style: Toast.Style.Failure, title: "Choose an audio file" });
+      return;
+    }
+
+    setIsLoading(true);
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: "Converting audio…",
+      message: basename(input),
+    });
+    // Shown under the result once processing is done.
+    const logLines: string[] = [];
+    const log = (line: string) => {
+      logLines.push(line);
+    };
+
+    let note: OutboxNote;
+    const tempDir = makeTempDir();
+    try {
+      const wavPath = join(tempDir, "note.wav") as FilePath;
+      await convertToWav(prefs.ffmpegPath, input, wavPath);
+      note = await enqueueRecording(wavPath, {
+        // The file's modification time is the closest thing to when it was recorded.
+        recordedAt: statSync(input).mtime.toISOString(),
+        source: "Audio File",
+        templateId,
+      });
+    } catch (e: unknown) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to import audio";
+      toast.message = e instanceof Error ? e.message : String(e);
+      setIsLoading(false);
+      return;
+    } finally {
+      // The outbox keeps its own copy; a failed conversion may leave a partial WAV behind.
+      await rm(tempDir, { recursive: true, force: true });
+    }
+
+    const review = prefs.reviewBeforePublish;
+    const result = await processNote(note, { prefs, log, stopAfter: review ? "clean" : undefined });
+    setIsLoading(false);
+    if (review && result.stage === "cleaned") {
+      const onDone = (reviewed?: OutboxNote) => {
+        if (reviewed?.stage === "published") push(<ResultView note={reviewed} file={input} log={logLines} />);
+      };
+      push(<ReviewForm note={result} prefs={prefs} log={log} onDone={onDone} />);
+    } else {
+      push(<ResultView note={result} file={input} log={logLines} />);
+    }
+  };
+
+  return (
+    <Form
+      isLoading={isLoading}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Transcribe File" icon={Icon.Waveform} onSubmit={onSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.FilePicker
+        id="files"
+        title="Audio File"
+        allowMultipleSelection={false}
+        canChooseDirectories={false}
+        value={files}
+        onChange={setFiles}
+        info="Any format ffmpeg can read: m4a, mp3, ogg, opus, wav, video files…"
+      />
+      <Form.Dropdown id="templateId" title="Cleanup Mode" defaultValue={DEFAULT_TEMPLATE_ID}>
+        {templates.map((t) => (
+          <Form.Dropdown.Item key={t.id} value={t.id} title={t.name} />
+        ))}
+      </Form.Dropdown>
+    </Form>
+  );
+}
+
+function ResultView({ note, file, log }: { note: OutboxNote; file: string; log: string[] }) {
+  const published = note.stage === "published";
+  const notionUrl = note.outputs?.notion?.location;
+  const markdown = [
+    note.markdown ?? `# ${basename(file)}\n\n_${published ? "Published" : "Saved for retry"}._`,
+    log.length ? ["## Log", "```text", ...log.slice(-30), "```"].join("\n") : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return (
+    <Detail
+      markdown={markdown}
+      navigationTitle={basename(file)}
+      actions={
+        <ActionPanel>
+          {note.markdown ? <Action.CopyToClipboard title="Copy Cleaned Note" content={note.markdown} /> : null}
+          {note.transcript ? <Action.CopyToClipboard title="Copy Raw Transcript" content={note.transcript} /> : null}
+          {notionUrl ? <Action.OpenInBrowser title="Open in Notion" url={notionUrl} /> : null}
+        </ActionPanel>
+      }
+    />
+  );
+}
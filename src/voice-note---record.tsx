@@ -1,22 +1,66 @@
-import { Action, ActionPanel, Detail, Icon, Toast, showToast } from "@raycast/api";
-import { useEffect, useMemo, useRef, useState } from "react";
-import { existsSync, statSync } from "node:fs";
-import { unlink } from "node:fs/promises";
+import { Action, ActionPanel, Detail, Icon, List, LocalStorage, Toast, showToast, useNavigation } from "@raycast/api";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { existsSync, promises as fsp, statSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { ReviewForm } from "./components/review-form";
+import { noteTitle } from "./lib/history";
+import { OutboxNote, enqueueRecording, requeueNote } from "./lib/outbox";
+import { PIPELINE_STAGES, PipelineStatus, StageStatus, processNote } from "./lib/pipeline";
 import { usePrefs } from "./lib/prefs";
-import { startRecording, stopRecording } from "./lib/recording/ffmpeg";
+import { CaptureBackend, InputDevice, captureBackend } from "./lib/recording/backends";
+import {
+  LIST_DEVICES_TIMEOUT_MS,
+  SavedDevice,
+  clearSavedDevice,
+  loadSavedDevice,
+  resolveInputDevice,
+  saveDevice,
+} from "./lib/recording/devices";
+import { concatRecordings, startRecording, stopRecording } from "./lib/recording/ffmpeg";
+import { DIGITAL_SILENCE_DB, Level, formatDb, isMeterLine, levelBar, watchLevels } from "./lib/recording/levels";
+import { SILENCE_NOISE_DB, watchSilence } from "./lib/recording/silence";
+import { exportTranscript } from "./lib/subtitles";
+import { BUILT_IN_TEMPLATES, CleanupTemplate, DEFAULT_TEMPLATE_ID, listTemplates } from "./lib/templates";
+import { ChunkProgress } from "./lib/transcribe";
 import { FilePath, RecordingProcess } from "./lib/types";
-import { cleanTranscript, transcribeAudio } from "./services/openai";
-import { createNotionPageFromMarkdown } from "./services/notion";
+
+/** LocalStorage key for the cleanup mode picked in the recorder. */
+const TEMPLATE_KEY = "cleanupTemplateId";
+
+/** Seconds of digital silence before the recorder warns that the input looks dead. */
+const NO_SIGNAL_SEC = 3;
 
 export default function Command() {
-  const { ffmpegPath, micDeviceIndex, openaiApiKey, notionToken, notionDatabaseId } = usePrefs();
+  const prefs = usePrefs();
+  const { push } = useNavigation();
+  const { ffmpegPath, micDeviceIndex } = prefs;
+  const backend = captureBackend(prefs.captureBackend);
+  const autoStopSec = Number(prefs.autoStopSilenceSec) > 0 ? Number(prefs.autoStopSilenceSec) : 0;
   const [isRecording, setIsRecording] = useState(false);
   const [isStopping, setIsStopping] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [level, setLevel] = useState<Level | null>(null);
+  const [noSignal, setNoSignal] = useState(false);
   const [startedAt, setStartedAt] = useState<number | null>(null);
+  // Elapsed time only counts while recording: finished segments plus the running one.
+  const [activeMs, setActiveMs] = useState(0);
+  const [segmentStartedAt, setSegmentStartedAt] = useState<number | null>(null);
   const [tick, setTick] = useState(0);
   const [log, setLog] = useState<string[]>([]);
   const [audioPath, setAudioPath] = useState<string | null>(null);
+  const [chunks, setChunks] = useState<ChunkProgress | null>(null);
+  const [templates, setTemplates] = useState<CleanupTemplate[]>(BUILT_IN_TEMPLATES);
+  const [templateId, setTemplateId] = useState<string>(DEFAULT_TEMPLATE_ID);
+  const [lastNote, setLastNote] = useState<OutboxNote | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [stages, setStages] = useState<PipelineStatus | null>(null);
+  const [savedDevice, setSavedDevice] = useState<SavedDevice | undefined>();
   const procRef = useRef<RecordingProcess | null>(null);
+  const segmentsRef = useRef<string[]>([]); // finished segments, in order
+  const currentSegmentRef = useRef<string | null>(null);
+  const deviceRef = useRef<string>("");
+  const silentSinceRef = useRef<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     if (!isRecording) return;
@@ -24,6 +68,17 @@ export default function Command() {
     return () => clearInterval(id);
   }, [isRecording]);
 
+  useEffect(() => {
+    listTemplates().then(setTemplates);
+    LocalStorage.getItem<string>(TEMPLATE_KEY).then((id) => id && setTemplateId(id));
+    loadSavedDevice().then(setSavedDevice);
+  }, []);
+
+  const chooseTemplate = (id: string) => {
+    setTemplateId(id);
+    LocalStorage.setItem(TEMPLATE_KEY, id);
+  };
+
   useEffect(
     () => () => {
       try {
@@ -44,109 +99,145 @@ export default function Command() {
     [],
   );
 
+  const status = (secs: number) => {
+    if (isStopping) return "Stopping…";
+    if (isPaused) return `Paused (${secs}s recorded)`;
+    if (isRecording) return `Recording… (${secs}s)`;
+    return isProcessing ? "Processing…" : "Idle";
+  };
+
   const markdown = useMemo(() => {
-    const secs = startedAt ? Math.max(0, Math.floor((Date.now() - startedAt) / 1000)) : 0;
+    const secs = Math.max(0, Math.floor((activeMs + (segmentStartedAt ? Date.now() - segmentStartedAt : 0)) / 1000));
+    const inputLabel =
+      savedDevice?.backend === backend.id ? `${savedDevice.name} (\`${savedDevice.device}\`)` : `\`${micDeviceIndex}\``;
+    const mode = templates.find((t) => t.id === templateId)?.name ?? "Standard Note";
     const parts = [
       "# Voice Recorder",
       "",
-      `**Status:** ${isRecording ? (isStopping ? "Stopping…" : `Recording… (${secs}s)`) : "Idle"}`,
+      `**Status:** ${status(secs)}`,
+      `\n**Input:** ${inputLabel}`,
+      level && isRecording && !isPaused
+        ? `\n**Level:** \`${levelBar(level.rmsDb)}\` peak ${formatDb(level.peakDb)}`
+        : "",
+      noSignal && isRecording && !isPaused
+        ? `\n> ⚠️ No signal for ${NO_SIGNAL_SEC}+ seconds. The input may be muted, the wrong device, or missing microphone permission.`
+        : "",
+      `\n**Cleanup mode:** ${mode}`,
+      stages ? `\n**Pipeline:** ${stageLine(stages)}` : "",
+      chunks && chunks.total > 1 ? `\n**Transcribing:** chunk ${chunks.done} of ${chunks.total}` : "",
       audioPath ? `\n**Last file:** \`${audioPath}\`` : "",
       log.length ? ["\n## Log", "```text", ...log.slice(-30), "```"].join("\n") : "",
-      "\n_Tip: Use “List Input Devices” to find the correct index (e.g. :0, :1)._",
+      "\n_Tip: Use “Choose Input Device” to pick your microphone._",
     ];
     return parts.filter(Boolean).join("\n");
-  }, [isRecording, isStopping, startedAt, tick, log, audioPath]);
-
-  const transcribeAudioFile = async (openaiApiKey: string) => {
-    // Transcribe with OpenAI
-    await showToast({ style: Toast.Style.Animated, title: "Transcribing audio…" });
-    const transcriptionText = await transcribeAudio(audioPath as FilePath, openaiApiKey, {
-      model: "gpt-4o-mini-transcribe", // or "whisper-1"
-      language: "en",
-      timeoutMs: 90000,
-    });
+  }, [
+    isRecording,
+    isStopping,
+    isPaused,
+    isProcessing,
+    activeMs,
+    segmentStartedAt,
+    tick,
+    log,
+    audioPath,
+    chunks,
+    stages,
+    templates,
+    templateId,
+    savedDevice,
+    level,
+    noSignal,
+  ]);
 
-    // Delete audio file after transcription
-    try {
-      if (audioPath) {
-        await unlink(audioPath);
-        setLog((l) => [...l, `Deleted audio file: ${audioPath}`]);
-        setAudioPath(null);
-      }
-    } catch (e: unknown) {
-      const msg = e instanceof Error ? e.message : String(e);
-      setLog((l) => [...l, `Failed to delete audio file: ${msg}`]);
-    }
-
-    if (transcriptionText) {
-      await showToast({ style: Toast.Style.Success, title: "Transcription complete", message: transcriptionText });
-      setLog((l) => [...l, "Transcription:", transcriptionText]);
-
-      return transcriptionText;
-    } else {
-      await showToast({ style: Toast.Style.Failure, title: "No transcription text received" });
-      return null;
+  const onLevel = (reading: Level) => {
+    setLevel(reading);
+    if (reading.peakDb > DIGITAL_SILENCE_DB) {
+      silentSinceRef.current = null;
+      setNoSignal(false);
+      return;
     }
+    silentSinceRef.current ??= Date.now();
+    if (Date.now() - silentSinceRef.current >= NO_SIGNAL_SEC * 1000) setNoSignal(true);
   };
 
-  const cleanTranscribedText = async (transcriptionText: string, openaiApiKey: string) => {
-    await showToast({ style: Toast.Style.Animated, title: "Cleaning transcription…" });
-    const cleanedMarkdown = await cleanTranscript({
-      apiKey: openaiApiKey,
-      text: transcriptionText,
-      model: "gpt-4.1-mini",
-      temperature: 0.2,
+  /** Spawn ffmpeg for one segment and pipe its output into the log. */
+  const beginSegment = (outPath?: string): string => {
+    const { child, wavPath } = startRecording({
+      ffmpegPath,
+      backend: backend.id,
+      device: deviceRef.current,
+      outPath,
+      silenceDetect: autoStopSec ? { noiseDb: SILENCE_NOISE_DB, minSilenceSec: autoStopSec } : undefined,
+      levels: true,
     });
+    procRef.current = child;
+    currentSegmentRef.current = wavPath;
+    setSegmentStartedAt(Date.now());
 
-    if (cleanedMarkdown) {
-      await showToast({ style: Toast.Style.Success, title: "Cleaning complete", message: cleanedMarkdown });
-      setLog((l) => [...l, "Cleaned Transcript:", cleanedMarkdown]);
-      return cleanedMarkdown;
-    } else {
-      await showToast({ style: Toast.Style.Failure, title: "No cleaned text received" });
-      return null;
+    const onOut = (d: Buffer) => {
+      if (isStopping) return;
+      const lines = d
+        .toString()
+        .split(/\r?\n/)
+        .filter((line) => line.trim() && !isMeterLine(line));
+      if (lines.length) setLog((l) => [...l, ...lines]);
+    };
+    child.stdout.on("data", onOut);
+    child.stderr.on("data", onOut);
+    child.on("close", (code) => setLog((l) => [...l, `ffmpeg exited (code ${code})`]));
+    watchLevels(child.stderr, onLevel);
+    if (autoStopSec) {
+      watchSilence(child.stderr, () => {
+        setLog((l) => [...l, `No sound for ${autoStopSec}s, stopping`]);
+        // The handler outlives this render, so go through the ref for the current state.
+        stopRef.current();
+      });
     }
+    return wavPath;
   };
 
-  const createNotionPage = async (markdown: string, notionToken: string, notionDatabaseId: string) => {
-    await showToast({ style: Toast.Style.Animated, title: "Creating Notion page…" });
-    const result = await createNotionPageFromMarkdown({
-      notionToken,
-      databaseId: notionDatabaseId,
-      markdown: markdown, // from your cleanup step
-      explicitTitle: undefined, // or pass a title string if you have one
-    });
-
-    if (result?.pageId) {
-      await showToast({
-        style: Toast.Style.Success,
-        title: "Notion page created",
-        message: result.title,
-      });
-      setLog((l) => [...l, `Notion page created: ${result.title} (${result.pageId})`, result.url || ""]);
-    } else {
-      await showToast({ style: Toast.Style.Failure, title: "Failed to create Notion page" });
-      setLog((l) => [...l, "Failed to create Notion page."]);
+  /** Stop the running segment and keep its file if anything was written. */
+  const endSegment = async () => {
+    const child = procRef.current;
+    if (!child) return;
+    try {
+      await stopRecording(child);
+    } catch {
+      // ignore
     }
+    procRef.current = null;
+    const endedAt = Date.now();
+    setActiveMs((ms) => ms + (segmentStartedAt ? endedAt - segmentStartedAt : 0));
+    setSegmentStartedAt(null);
+    setLevel(null);
+    setNoSignal(false);
+    silentSinceRef.current = null;
+
+    await new Promise((r) => setTimeout(r, 200));
+    const path = currentSegmentRef.current;
+    currentSegmentRef.current = null;
+    if (path && existsSync(path) && statSync(path).size > 0) segmentsRef.current.push(path);
   };
 
   const onStart = async () => {
     if (isRecording || isStopping) return;
     try {
-      const { child, wavPath } = startRecording({ ffmpegPath, device: micDeviceIndex });
-      procRef.current = child;
-      setAudioPath(wavPath);
+      const input = await resolveInputDevice(ffmpegPath, backend, micDeviceIndex);
+      if (input.movedFrom) {
+        setLog((l) => [...l, `“${input.name}” moved from ${input.movedFrom} to ${input.device}`]);
+        setSavedDevice(await loadSavedDevice());
+      }
+      if (input.missing) setLog((l) => [...l, `“${input.name}” is not connected; trying ${input.device}`]);
+
+      deviceRef.current = input.device;
+      segmentsRef.current = [];
+      setAudioPath(beginSegment());
       setIsRecording(true);
+      setIsPaused(false);
       setStartedAt(Date.now());
+      setActiveMs(0);
       setTick(0);
 
-      const onOut = (d: Buffer) => {
-        if (!isStopping) setLog((l) => [...l, d.toString().trim()]);
-      };
-      child.stdout.on("data", onOut);
-      child.stderr.on("data", onOut);
-      child.on("close", (code) => setLog((l) => [...l, `ffmpeg exited (code ${code})`]));
-
       await showToast({ style: Toast.Style.Animated, title: "Recording started" });
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } catch (e: any) {
@@ -154,64 +245,135 @@ export default function Command() {
       await showToast({ style: Toast.Style.Failure, title: "Failed to start recording" });
     }
   };
+  const onPause = async () => {
+    if (!isRecording || isPaused || isStopping) return;
+    await endSegment();
+    setIsPaused(true);
+    await showToast({ style: Toast.Style.Success, title: "Recording paused" });
+  };
+
+  const onResume = async () => {
+    if (!isRecording || !isPaused || !audioPath) return;
+    try {
+      // Later segments go next to the first one and are joined on stop.
+      beginSegment(join(dirname(audioPath), `segment-${segmentsRef.current.length + 1}.wav`));
+      setIsPaused(false);
+      await showToast({ style: Toast.Style.Animated, title: "Recording resumed" });
+    } catch (e: unknown) {
+      setLog((l) => [...l, `Failed to resume: ${e instanceof Error ? e.message : String(e)}`]);
+      await showToast({ style: Toast.Style.Failure, title: "Failed to resume recording" });
+    }
+  };
+
+  const stopRef = useRef(() => {});
+  stopRef.current = () => {
+    onStop();
+  };
 
   const onStop = async () => {
-    const child = procRef.current as RecordingProcess | null;
-    if (!isRecording || !child) return;
+    if (!isRecording || isStopping) return;
 
     setIsStopping(true);
     await showToast({ style: Toast.Style.Animated, title: "Stopping…" });
-
-    try {
-      await stopRecording(child);
-    } catch {
-      // ignore
-    }
-    procRef.current = null;
+    if (!isPaused) await endSegment();
     setIsRecording(false);
     setIsStopping(false);
+    setIsPaused(false);
     setTick(0);
 
-    await new Promise((r) => setTimeout(r, 200));
-    if (!audioPath || !existsSync(audioPath) || statSync(audioPath).size === 0) {
-      setLog((l) => [...l, "No audio file written. Check micDeviceIndex & permissions."]);
+    const segments = segmentsRef.current;
+    segmentsRef.current = [];
+    if (!segments.length) {
+      setLog((l) => [...l, "No audio file written. Check the input device & permissions."]);
       await showToast({ style: Toast.Style.Failure, title: "No audio captured" });
       return;
     }
+
+    let recordingPath = segments[0];
+    if (segments.length > 1) {
+      recordingPath = join(dirname(segments[0]), "recording.wav");
+      try {
+        await concatRecordings(ffmpegPath, segments, recordingPath);
+        await Promise.all(segments.map((p) => fsp.unlink(p).catch(() => undefined)));
+        setLog((l) => [...l, `Joined ${segments.length} segments`]);
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e);
+        setLog((l) => [...l, msg, `Segments kept in ${dirname(segments[0])}`]);
+        await showToast({ style: Toast.Style.Failure, title: "Failed to join recording segments" });
+        return;
+      }
+    }
+    setAudioPath(recordingPath);
     await showToast({ style: Toast.Style.Success, title: "Recording saved" });
 
-    if (!openaiApiKey?.trim()) {
-      await showToast({ style: Toast.Style.Failure, title: "No OpenAI API key configured" });
-      setLog((l) => [...l, "No OpenAI API key configured."]);
+    // Persist the recording before any network work so a failure can be retried later.
+    let note: OutboxNote;
+    try {
+      note = await enqueueRecording(recordingPath as FilePath, {
+        recordedAt: startedAt ? new Date(startedAt).toISOString() : undefined,
+        source: "Voice Note",
+        templateId,
+      });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      setLog((l) => [...l, `Failed to save note to outbox: ${msg}`]);
+      await showToast({ style: Toast.Style.Failure, title: "Failed to save recording" });
       return;
     }
+    setAudioPath(note.audioPath ?? null);
+    await runPipeline(note);
+  };
 
-    // Transcribe the audio
-    const transcriptionText = await transcribeAudioFile(openaiApiKey);
-    if (!transcriptionText) return;
+  const appendLog = (line: string) => setLog((l) => [...l, line]);
 
-    // Clean transcription
-    const cleanedMarkdown = await cleanTranscribedText(transcriptionText, openaiApiKey);
-    if (!cleanedMarkdown) return;
+  const openReview = (note: OutboxNote) =>
+    push(<ReviewForm note={note} prefs={prefs} log={appendLog} onDone={(result) => setLastNote(result ?? null)} />);
 
-    if (!notionToken?.trim() || !notionDatabaseId?.trim()) {
-      await showToast({ style: Toast.Style.Failure, title: "No Notion token or database ID configured" });
-      setLog((l) => [...l, "No Notion token or database ID configured."]);
+  const runPipeline = async (note: OutboxNote) => {
+    // A note parked for review goes back to the form rather than straight out.
+    if (prefs.reviewBeforePublish && note.stage === "cleaned") {
+      openReview(note);
       return;
     }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsProcessing(true);
+    const result = await processNote(note, {
+      prefs,
+      log: appendLog,
+      onProgress: setChunks,
+      onStatus: setStages,
+      signal: controller.signal,
+      stopAfter: prefs.reviewBeforePublish ? "clean" : undefined,
+    });
+    abortRef.current = null;
+    setAudioPath(result.audioPath ?? null);
+    setLastNote(result);
+    setIsProcessing(false);
+    if (prefs.reviewBeforePublish && result.stage === "cleaned") openReview(result);
+  };
 
-    // Create the Notion page
-    await createNotionPage(cleanedMarkdown, notionToken, notionDatabaseId);
+  const cancelProcessing = () => {
+    setLog((l) => [...l, "Cancelling…"]);
+    abortRef.current?.abort();
   };
 
-  const listDevices = async () => {
-    const args = ["-f", "avfoundation", "-list_devices", "true", "-i", ""];
-    setLog((l) => [...l, `$ ${ffmpegPath} ${args.join(" ")}`]);
-    const { spawn } = await import("node:child_process");
-    const p = spawn(ffmpegPath, args, { stdio: ["ignore", "pipe", "pipe"] });
-    p.stdout.on("data", (d) => setLog((l) => [...l, d.toString().trim()]));
-    p.stderr.on("data", (d) => setLog((l) => [...l, d.toString().trim()]));
-    p.on("close", () => showToast({ style: Toast.Style.Success, title: "Listed devices (see Log)" }));
+  /** Run the last note's transcript through another cleanup mode and publish the result. */
+  const recleanLastNote = async (template: CleanupTemplate) => {
+    if (!lastNote?.transcript) return;
+    setLog((l) => [...l, `Re-cleaning last note as “${template.name}”…`]);
+    const note = await requeueNote({
+      ...lastNote,
+      stage: "transcribed",
+      templateId: template.id,
+      markdown: undefined,
+      originalMarkdown: undefined,
+      explicitTitle: undefined,
+      outputs: undefined,
+      lastError: undefined,
+      attempts: 0,
+    });
+    await runPipeline(note);
   };
 
   return (
@@ -227,17 +389,179 @@ export default function Command() {
               onAction={onStart}
             />
           ) : (
+            <>
+              <Action
+                title="Stop Recording"
+                icon={Icon.Stop}
+                style={Action.Style.Destructive}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+                onAction={onStop}
+              />
+              {isPaused ? (
+                <Action
+                  title="Resume Recording"
+                  icon={Icon.Play}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+                  onAction={onResume}
+                />
+              ) : (
+                <Action
+                  title="Pause Recording"
+                  icon={Icon.Pause}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+                  onAction={onPause}
+                />
+              )}
+            </>
+          )}
+          <ActionPanel.Submenu title="Cleanup Mode" icon={Icon.Wand} shortcut={{ modifiers: ["cmd"], key: "m" }}>
+            {templates.map((t) => (
+              <Action
+                key={t.id}
+                title={t.name}
+                icon={t.id === templateId ? Icon.CheckCircle : Icon.Circle}
+                onAction={() => chooseTemplate(t.id)}
+              />
+            ))}
+          </ActionPanel.Submenu>
+          {isProcessing ? (
             <Action
-              title="Stop Recording"
-              icon={Icon.Stop}
+              title="Cancel Processing"
+              icon={Icon.XMarkCircle}
               style={Action.Style.Destructive}
-              shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
-              onAction={onStop}
+              onAction={cancelProcessing}
             />
-          )}
-          <Action title="List Input Devices (Log)" icon={Icon.MagnifyingGlass} onAction={listDevices} />
+          ) : null}
+          {lastNote && lastNote.stage !== "published" && !isRecording && !isProcessing ? (
+            <Action
+              title={prefs.reviewBeforePublish && lastNote.stage === "cleaned" ? "Review Last Note" : "Retry Last Note"}
+              icon={Icon.ArrowClockwise}
+              onAction={() => runPipeline(lastNote)}
+            />
+          ) : null}
+          {lastNote?.transcript && !isRecording && !isProcessing ? (
+            <ActionPanel.Submenu title="Re-Clean Last Note in Mode" icon={Icon.ArrowClockwise}>
+              {templates.map((t) => (
+                <Action key={t.id} title={t.name} onAction={() => recleanLastNote(t)} />
+              ))}
+            </ActionPanel.Submenu>
+          ) : null}
+          {lastNote?.segments?.length && !isRecording ? (
+            <ActionPanel.Submenu title="Export Last Transcript" icon={Icon.Download}>
+              <Action
+                title="SRT Subtitles"
+                onAction={() => exportTranscript(lastNote.segments ?? [], noteTitle(lastNote), "srt")}
+              />
+              <Action
+                title="WebVTT Subtitles"
+                onAction={() => exportTranscript(lastNote.segments ?? [], noteTitle(lastNote), "vtt")}
+              />
+            </ActionPanel.Submenu>
+          ) : null}
+          <Action.Push
+            title="Choose Input Device"
+            icon={Icon.Microphone}
+            target={<DevicePicker ffmpegPath={ffmpegPath} backend={backend} onChange={setSavedDevice} />}
+          />
         </ActionPanel>
       }
     />
   );
 }
+
+const STAGE_LABELS = { transcribe: "Transcribe", clean: "Clean", publish: "Publish" };
+const STATUS_ICONS: Record<StageStatus, string> = {
+  pending: "○",
+  running: "…",
+  done: "✓",
+  failed: "✗",
+  cancelled: "⊘",
+};
+
+/** `Transcribe ✓ · Clean … · Publish ○` */
+function stageLine(status: PipelineStatus): string {
+  return PIPELINE_STAGES.map((stage) => `${STAGE_LABELS[stage]} ${STATUS_ICONS[status[stage]]}`).join(" · ");
+}
+
+/** Lists the backend's audio inputs; the chosen one is remembered and overrides the preference. */
+function DevicePicker({
+  ffmpegPath,
+  backend,
+  onChange,
+}: {
+  ffmpegPath: string;
+  backend: CaptureBackend;
+  onChange: (saved: SavedDevice | undefined) => void;
+}) {
+  const { pop } = useNavigation();
+  const [devices, setDevices] = useState<InputDevice[]>([]);
+  const [saved, setSaved] = useState<SavedDevice | undefined>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSaved(await loadSavedDevice());
+      const listed = await backend.listDevices(ffmpegPath, AbortSignal.timeout(LIST_DEVICES_TIMEOUT_MS));
+      setDevices(listed.filter((d) => d.kind === "audio"));
+      setError(null);
+    } catch (e: unknown) {
+      const message =
+        e instanceof Error && e.name === "TimeoutError"
+          ? `ffmpeg didn't list the devices within ${LIST_DEVICES_TIMEOUT_MS / 1000}s`
+          : e instanceof Error
+            ? e.message
+            : String(e);
+      setError(message);
+      await showToast({ style: Toast.Style.Failure, title: "Couldn't list input devices", message });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ffmpegPath, backend]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const choose = async (device: InputDevice) => {
+    onChange(await saveDevice(backend, device));
+    await showToast({ style: Toast.Style.Success, title: "Input device set", message: device.name });
+    pop();
+  };
+
+  const reset = async () => {
+    await clearSavedDevice();
+    onChange(undefined);
+    await showToast({ style: Toast.Style.Success, title: "Using the device from preferences" });
+    pop();
+  };
+
+  return (
+    <List isLoading={isLoading} navigationTitle={`Input Devices · ${backend.label}`}>
+      <List.EmptyView
+        icon={Icon.Microphone}
+        title={error ? "Could not list devices" : "No input devices found"}
+        description={error ?? `Check that ffmpeg can see your microphone (${backend.label}).`}
+      />
+      {devices.map((d) => {
+        const isCurrent = saved?.backend === backend.id && saved.name === d.name;
+        return (
+          <List.Item
+            key={d.device}
+            icon={isCurrent ? Icon.CheckCircle : Icon.Microphone}
+            title={d.name}
+            accessories={[{ tag: d.device }]}
+            actions={
+              <ActionPanel>
+                <Action title="Use This Device" icon={Icon.Check} onAction={() => choose(d)} />
+                <Action title="Reload Devices" icon={Icon.ArrowClockwise} onAction={load} />
+                {saved ? <Action title="Use Device from Preferences" icon={Icon.Undo} onAction={reset} /> : null}
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
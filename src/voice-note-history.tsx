@@ -0,0 +1,296 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Color,
+  Form,
+  Icon,
+  Keyboard,
+  List,
+  Toast,
+  confirmAlert,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { existsSync, promises as fsp } from "node:fs";
+import { useCallback, useEffect, useState } from "react";
+import {
+  HistoryEntry,
+  HistoryStatus,
+  deleteHistoryEntry,
+  entryNote,
+  listHistory,
+  noteTitle,
+  saveHistoryEntry,
+} from "./lib/history";
+import { describeError } from "./lib/http";
+import { languageName } from "./lib/languages";
+import { OutboxNote, listPendingNotes, requeueNote } from "./lib/outbox";
+import { cleanText, noteExtras, processNote, translateNote } from "./lib/pipeline";
+import { usePrefs } from "./lib/prefs";
+import { BUILT_IN_TEMPLATES, CleanupTemplate, DEFAULT_TEMPLATE_ID, listTemplates } from "./lib/templates";
+import { exportTranscript } from "./lib/subtitles";
+import { formatDuration } from "./services/notion-properties";
+import { actionItemText } from "./services/notion-tasks";
+
+const STATUS: Record<HistoryStatus, { label: string; color: Color }> = {
+  published: { label: "Published", color: Color.Green },
+  pending: { label: "Pending", color: Color.Orange },
+  failed: { label: "Failed", color: Color.Red },
+};
+
+export default function Command() {
+  const prefs = usePrefs();
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    setEntries(await listHistory());
+  }, []);
+
+  useEffect(() => {
+    reload().finally(() => setIsLoading(false));
+  }, [reload]);
+
+  const republish = async (entry: HistoryEntry) => {
+    if (!entry.markdown) {
+      await showToast({ style: Toast.Style.Failure, title: "Nothing to publish yet" });
+      return;
+    }
+    setIsLoading(true);
+    try {
+      // A note that's still pending resumes from the outbox, so sinks it already reached are skipped.
+      const note = (await listPendingNotes()).find((n) => n.id === entry.id) ?? (await requeueEntry(entry));
+      // Failures are kept on the history entry, and the pipeline's toasts report progress.
+      await processNote(note, { prefs, log: () => undefined });
+      await reload();
+    } catch (e: unknown) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to re-publish",
+        message: e instanceof Error ? e.message : String(e),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const remove = async (entry: HistoryEntry) => {
+    const confirmed = await confirmAlert({
+      title: "Delete note from history?",
+      message: entry.archivedAudioPath
+        ? "Published copies in Notion and elsewhere are not affected. The audio saved locally is deleted too."
+        : "Published copies in Notion and elsewhere are not affected.",
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    await deleteHistoryEntry(entry.id);
+    // A pending note still needs its audio for publishing; leave it to the outbox.
+    if (entry.archivedAudioPath && entry.status === "published") {
+      await fsp.unlink(entry.archivedAudioPath).catch(() => undefined);
+    }
+    await reload();
+  };
+
+  return (
+    <List isLoading={isLoading} isShowingDetail={entries.length > 0} searchBarPlaceholder="Search notes">
+      <List.EmptyView icon={Icon.Microphone} title="No notes yet" description="Recorded notes will show up here." />
+      {entries.map((entry) => {
+        const notionUrl = entry.outputs?.notion?.location;
+        return (
+          <List.Item
+            key={entry.id}
+            icon={{ source: Icon.Document, tintColor: STATUS[entry.status].color }}
+            title={entry.title}
+            keywords={entry.tags}
+            accessories={[{ date: new Date(entry.recordedAt ?? entry.createdAt) }]}
+            detail={<EntryDetail entry={entry} />}
+            actions={
+              <ActionPanel>
+                {entry.markdown ? <Action.CopyToClipboard title="Copy Cleaned Note" content={entry.markdown} /> : null}
+                {entry.transcript ? (
+                  <Action.CopyToClipboard
+                    title="Copy Raw Transcript"
+                    content={entry.transcript}
+                    shortcut={Keyboard.Shortcut.Common.Copy}
+                  />
+                ) : null}
+                {notionUrl ? <Action.OpenInBrowser title="Open in Notion" url={notionUrl} /> : null}
+                {entry.archivedAudioPath ? (
+                  <Action.ShowInFinder title="Show Audio in Finder" path={entry.archivedAudioPath} />
+                ) : null}
+                {entry.segments?.length ? (
+                  <>
+                    <Action
+                      title="Export Transcript as SRT"
+                      icon={Icon.Download}
+                      onAction={() => exportTranscript(entry.segments ?? [], entry.title, "srt")}
+                    />
+                    <Action
+                      title="Export Transcript as VTT"
+                      icon={Icon.Download}
+                      onAction={() => exportTranscript(entry.segments ?? [], entry.title, "vtt")}
+                    />
+                  </>
+                ) : null}
+                {entry.transcript ? (
+                  <Action.Push
+                    title="Re-Clean with Different Mode or Prompt"
+                    icon={Icon.Wand}
+                    target={<RecleanForm entry={entry} onDone={reload} />}
+                  />
+                ) : null}
+                <Action title="Re-Publish" icon={Icon.Upload} onAction={() => republish(entry)} />
+                <Action
+                  title="Delete from History"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  shortcut={Keyboard.Shortcut.Common.Remove}
+                  onAction={() => remove(entry)}
+                />
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
+
+/** Put a history entry back into the outbox, ready to publish to every destination again. */
+async function requeueEntry(entry: HistoryEntry): Promise<OutboxNote> {
+  const note = entryNote(entry);
+  return requeueNote({
+    ...note,
+    stage: "cleaned",
+    // Unless it was kept locally, the audio was deleted once it had been uploaded.
+    archivedAudioPath:
+      note.archivedAudioPath && existsSync(note.archivedAudioPath) ? note.archivedAudioPath : undefined,
+    outputs: undefined,
+    attempts: 0,
+    lastError: undefined,
+  });
+}
+
+function EntryDetail({ entry }: { entry: HistoryEntry }) {
+  const notionUrl = entry.outputs?.notion?.location;
+  const markdown = [
+    entry.markdown ? entry.markdown : "_Not cleaned yet._",
+    entry.tasks?.length ? `## Action Items\n\n${entry.tasks.map((t) => `- [ ] ${actionItemText(t)}`).join("\n")}` : "",
+    entry.transcript ? `---\n\n## Raw Transcript\n\n${entry.transcript}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return (
+    <List.Item.Detail
+      markdown={markdown}
+      metadata={
+        <List.Item.Detail.Metadata>
+          <List.Item.Detail.Metadata.Label
+            title="Recorded"
+            text={new Date(entry.recordedAt ?? entry.createdAt).toLocaleString()}
+          />
+          {entry.durationSec != null ? (
+            <List.Item.Detail.Metadata.Label title="Duration" text={formatDuration(entry.durationSec)} />
+          ) : null}
+          {entry.language ? (
+            <List.Item.Detail.Metadata.Label
+              title="Language"
+              text={`${languageName(entry.language)}${entry.originalMarkdown ? " (translated)" : ""}`}
+            />
+          ) : null}
+          <List.Item.Detail.Metadata.TagList title="Status">
+            <List.Item.Detail.Metadata.TagList.Item
+              text={STATUS[entry.status].label}
+              color={STATUS[entry.status].color}
+            />
+          </List.Item.Detail.Metadata.TagList>
+          {entry.lastError ? <List.Item.Detail.Metadata.Label title="Last Error" text={entry.lastError} /> : null}
+          {notionUrl ? <List.Item.Detail.Metadata.Link title="Notion" target={notionUrl} text="Open page" /> : null}
+          {entry.tags?.length ? (
+            <List.Item.Detail.Metadata.TagList title="Tags">
+              {entry.tags.map((tag) => (
+                <List.Item.Detail.Metadata.TagList.Item key={tag} text={tag} />
+              ))}
+            </List.Item.Detail.Metadata.TagList>
+          ) : null}
+        </List.Item.Detail.Metadata>
+      }
+    />
+  );
+}
+
+function RecleanForm({ entry, onDone }: { entry: HistoryEntry; onDone: () => Promise<void> }) {
+  const prefs = usePrefs();
+  const { pop } = useNavigation();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const [templates, setTemplates] = useState<CleanupTemplate[]>(BUILT_IN_TEMPLATES);
+
+  useEffect(() => {
+    listTemplates().then(setTemplates);
+  }, []);
+
+  const onSubmit = async ({ templateId, instructions }: { templateId: string; instructions: string }) => {
+    setIsLoading(true);
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Cleaning transcription…" });
+    try {
+      const template = templates.find((t) => t.id === templateId) ?? BUILT_IN_TEMPLATES[0];
+      const cleaned = await cleanText(entry.transcript ?? "", prefs, {
+        template,
+        instructions,
+        date: new Date(entry.recordedAt ?? entry.createdAt),
+        language: entry.language && languageName(entry.language),
+      });
+      const { markdown, originalMarkdown } = await translateNote(cleaned, prefs, { language: entry.language });
+      const { tags, tasks } = await noteExtras(markdown, entry, { prefs, log: () => undefined });
+      await saveHistoryEntry({
+        ...entry,
+        markdown,
+        originalMarkdown,
+        tags,
+        tasks,
+        explicitTitle: undefined,
+        templateId,
+        instructions,
+        title: noteTitle({ ...entry, markdown, explicitTitle: undefined }),
+        updatedAt: new Date().toISOString(),
+      });
+      toast.style = Toast.Style.Success;
+      toast.title = "Note re-cleaned";
+      toast.message = "Use Re-Publish to send the new version";
+      await onDone();
+      pop();
+    } catch (e: unknown) {
+      const { title, message } = describeError(e, "Cleanup failed");
+      toast.style = Toast.Style.Failure;
+      toast.title = title;
+      toast.message = message;
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle={`Re-Clean “${entry.title}”`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Re-Clean Note" icon={Icon.Wand} onSubmit={onSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Dropdown id="templateId" title="Mode" defaultValue={entry.templateId ?? DEFAULT_TEMPLATE_ID}>
+        {templates.map((t) => (
+          <Form.Dropdown.Item key={t.id} value={t.id} title={t.name} />
+        ))}
+      </Form.Dropdown>
+      <Form.TextArea
+        id="instructions"
+        title="Instructions"
+        placeholder="e.g. Keep it as a bullet list and use British spelling"
+      />
+    </Form>
+  );
+}